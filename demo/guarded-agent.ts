@@ -4,7 +4,7 @@ import { privateKeyToAccount } from "viem/accounts";
 import { x402Client } from "@x402/fetch";
 import { ExactEvmScheme } from "@x402/evm";
 
-import { GuardError, X402Guard } from "../src/index.js";
+import { GuardError, X402Guard, loadPolicyFromEnv, type GuardPolicy } from "../src/index.js";
 
 loadEnv();
 
@@ -17,6 +17,32 @@ if (!EVM_PRIVATE_KEY) {
 }
 const EVM_PRIVATE_KEY_NON_NULL = EVM_PRIVATE_KEY;
 
+const DEMO_POLICY: GuardPolicy = {
+  // For demo: ensure we never pick the expensive “first option” if it’s above this cap.
+  maxPerPaymentUsd: 0.0001,
+
+  // Prefer cheapest among remaining acceptable requirements.
+  selectCheapest: true,
+
+  // For demo: if the API keeps returning junk and we keep retrying, stop after tiny spend.
+  budget: { limitUsd: 0.25, windowMs: 60_000 },
+
+  // For demo: reject non-2xx and require `result` to be a non-empty string.
+  conditions: {
+    requireHttp2xx: true,
+    maxLatencyMs: 2_000,
+    responseSchema: {
+      type: "object",
+      required: ["result"],
+      properties: { result: { type: "string", minLength: 1 } },
+    },
+  },
+};
+
+// Ops can swap guardrails without a code change: X402_GUARD_POLICY (inline) or X402_GUARD_POLICY_FILE.
+const policy =
+  process.env.X402_GUARD_POLICY || process.env.X402_GUARD_POLICY_FILE ? loadPolicyFromEnv() : DEMO_POLICY;
+
 async function main() {
   const account = privateKeyToAccount(EVM_PRIVATE_KEY_NON_NULL);
 
@@ -26,19 +52,7 @@ async function main() {
 
   const guard = new X402Guard(fetch, {
     client,
-    policy: {
-      // For demo: ensure we never pick the expensive “first option” if it’s above this cap.
-      maxPerPaymentUsd: 0.0001,
-
-      // Prefer cheapest among remaining acceptable requirements.
-      selectCheapest: true,
-
-      // For demo: if the API keeps returning junk and we keep retrying, stop after tiny spend.
-      budget: { limitUsd: 0.25, windowMs: 60_000 },
-
-      // For demo: reject non-2xx and require the JSON to have `result`.
-      conditions: { requireHttp2xx: true, requiredJsonFields: ["result"], maxLatencyMs: 2_000 },
-    },
+    policy,
     onDecision: (record) => {
       // eslint-disable-next-line no-console
       console.log(`[guarded-agent] decision=${record.decision} record=${JSON.stringify(record, null, 2)}`);
@@ -49,11 +63,16 @@ async function main() {
   console.log(`[guarded-agent] calling ${API_URL}`);
 
   try {
-    const res = await guard.fetch(API_URL, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({ prompt: "compute something expensive" }),
-    });
+    // Same retry behavior as the naive agent, but bounded per logical request.
+    const res = await guard.fetchWithRetry(
+      API_URL,
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ prompt: "compute something expensive" }),
+      },
+      { maxPaidAttempts: 3, backoff: { initialMs: 500 } },
+    );
 
     const body = await res.json().catch(() => null);
     // eslint-disable-next-line no-console
@@ -0,0 +1,34 @@
+import { erc20Abi, type Address, type PublicClient } from "viem";
+
+import type { BalanceProvider, BalanceQuery } from "./policy/balance.js";
+
+/**
+ * `BalanceProvider` over viem public clients: reads ERC-20 `balanceOf` on EVM networks.
+ *
+ * ```ts
+ * const balances = new ViemBalanceProvider({
+ *   "eip155:8453": createPublicClient({ chain: base, transport: http(process.env.BASE_RPC_URL) }),
+ * });
+ * ```
+ *
+ * A network without a client is an error, which blocks the payment (fail closed).
+ */
+export class ViemBalanceProvider implements BalanceProvider {
+  private readonly clients: Record<string, Pick<PublicClient, "readContract">>;
+
+  /** `clients` is keyed by CAIP-2 network id, e.g. `eip155:8453`. */
+  constructor(clients: Record<string, Pick<PublicClient, "readContract">>) {
+    this.clients = clients;
+  }
+
+  async getBalance({ network, asset, address }: BalanceQuery): Promise<bigint> {
+    const client = this.clients[network];
+    if (!client) throw new Error(`no public client for network ${network}`);
+    return client.readContract({
+      address: asset as Address,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [address as Address],
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { config as loadEnv } from "dotenv";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { x402Client } from "@x402/fetch";
+import { ExactEvmScheme } from "@x402/evm";
+import type { Network } from "@x402/core/types";
+
+import { X402Guard } from "../guard.js";
+import { loadPolicyFromEnv } from "../policy/loader.js";
+import { createGuardProxy, GUARD_STATUS_PATH, isLoopbackHost } from "../proxy.js";
+import { FileAuditLog } from "../stores/audit.js";
+
+/**
+ * Local guard proxy for agents not written in TypeScript.
+ *
+ *   pnpm proxy
+ *
+ * Environment:
+ * - `EVM_PRIVATE_KEY` (required): the signer the guard pays with
+ * - `X402_GUARD_POLICY` / `X402_GUARD_POLICY_FILE` (required): the policy; the proxy refuses to start without one
+ * - `X402_NETWORK`: network registered in addition to `eip155:*`
+ * - `PROXY_HOST` / `PROXY_PORT`: listen address, default `127.0.0.1:8402` (a non-loopback host is also accepted as `Host`)
+ * - `PROXY_TOKEN`: shared secret every caller must send in `X-Guard-Token`; required for a non-loopback `PROXY_HOST`
+ * - `X402_GUARD_AUDIT_LOG`: append every decision to this `FileAuditLog`
+ */
+loadEnv();
+
+function fail(message: string): never {
+  console.error(`[x402-guard proxy] ${message}`);
+  process.exit(2);
+}
+
+const EVM_PRIVATE_KEY = process.env.EVM_PRIVATE_KEY as `0x${string}` | undefined;
+if (!EVM_PRIVATE_KEY) fail("missing EVM_PRIVATE_KEY");
+if (!process.env.X402_GUARD_POLICY && !process.env.X402_GUARD_POLICY_FILE) {
+  fail("missing X402_GUARD_POLICY or X402_GUARD_POLICY_FILE: the proxy does not pay without an explicit policy");
+}
+
+const HOST = process.env.PROXY_HOST ?? "127.0.0.1";
+const PORT = Number(process.env.PROXY_PORT ?? 8402);
+if (!Number.isInteger(PORT) || PORT < 0 || PORT > 65_535) fail(`invalid PROXY_PORT: ${process.env.PROXY_PORT}`);
+const TOKEN = process.env.PROXY_TOKEN || undefined;
+if (!isLoopbackHost(HOST) && !TOKEN) {
+  fail(`PROXY_HOST ${HOST} is reachable from other machines: set PROXY_TOKEN so only callers with it can spend the wallet`);
+}
+
+let policy;
+try {
+  policy = loadPolicyFromEnv();
+} catch (e) {
+  fail(e instanceof Error ? e.message : String(e));
+}
+
+/** CAIP-2 shape (`namespace:reference`), as x402's `Network` type. */
+function isNetwork(value: string): value is Network {
+  return /^[^:\s]+:[^:\s]+$/.test(value);
+}
+
+const NETWORK = process.env.X402_NETWORK;
+if (NETWORK !== undefined && NETWORK !== "" && !isNetwork(NETWORK)) fail(`invalid X402_NETWORK (expected e.g. eip155:8453): ${NETWORK}`);
+
+const account = privateKeyToAccount(EVM_PRIVATE_KEY);
+const client = new x402Client().register("eip155:*", new ExactEvmScheme(account));
+if (NETWORK && isNetwork(NETWORK)) client.register(NETWORK, new ExactEvmScheme(account));
+
+const auditLog = process.env.X402_GUARD_AUDIT_LOG ? new FileAuditLog(process.env.X402_GUARD_AUDIT_LOG) : undefined;
+
+const guard = new X402Guard(fetch, {
+  client,
+  policy,
+  onDecision: (record) => {
+    auditLog?.write(record);
+    const code = record.decision === "deny" ? ` ${record.code}` : "";
+    console.log(`[x402-guard proxy] ${record.decision} ${record.request.method ?? "GET"} ${record.request.url ?? ""}${code}`);
+  },
+  onPolicyChange: (event) => auditLog?.write(event),
+});
+
+createGuardProxy(guard, { token: TOKEN, allowedHosts: [HOST] }).listen(PORT, HOST, () => {
+  console.log(`[x402-guard proxy] listening on http://${HOST}:${PORT} (status: ${GUARD_STATUS_PATH})`);
+});
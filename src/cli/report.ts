@@ -0,0 +1,61 @@
+import { parseArgs } from "node:util";
+
+import { parseDuration } from "../policy/loader.js";
+import { buildSpendReport, formatSpendReport, readDecisionLog, type ReportDimension } from "../report.js";
+
+/**
+ * Spend report over a decision log.
+ *
+ *   pnpm report <log.jsonl> [--group-by origin,endpoint] [--bucket 1d] [--since ISO] [--until ISO] [--json]
+ *
+ * Reads `FileAuditLog` files or bare JSONL decision records. Dimensions: origin, endpoint, route,
+ * payTo, network, time (bucketed by `--bucket`, a duration such as `1h` or `1d`).
+ */
+const DIMENSIONS: ReportDimension[] = ["origin", "endpoint", "route", "payTo", "network", "time"];
+
+const USAGE =
+  "usage: report <log.jsonl> [--group-by origin,endpoint,route,payTo,network,time] [--bucket 1d] [--since ISO] [--until ISO] [--json]";
+
+function fail(message: string): never {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(2);
+}
+
+function parseBucket(value: string): number {
+  const ms = parseDuration(value);
+  if (!ms) fail(`invalid --bucket: ${value}`);
+  return ms;
+}
+
+function parseDate(flag: string, value: string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) fail(`invalid ${flag}: ${value}`);
+  return date;
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "group-by": { type: "string", default: "origin" },
+    bucket: { type: "string" },
+    since: { type: "string" },
+    until: { type: "string" },
+    json: { type: "boolean", default: false },
+  },
+});
+
+const path = positionals[0];
+if (!path || positionals.length > 1) fail("expected exactly one log file");
+
+const groupBy = values["group-by"]!.split(",").map((d) => d.trim()).filter(Boolean);
+for (const d of groupBy) if (!DIMENSIONS.includes(d as ReportDimension)) fail(`unknown dimension: ${d}`);
+
+const report = await buildSpendReport(readDecisionLog(path), {
+  groupBy: groupBy as ReportDimension[],
+  bucketMs: values.bucket !== undefined ? parseBucket(values.bucket) : undefined,
+  since: parseDate("--since", values.since),
+  until: parseDate("--until", values.until),
+});
+
+console.log(values.json ? JSON.stringify(report, null, 2) : formatSpendReport(report));
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { PaymentRequirements } from "@x402/core/types";
+
+import type { BalanceQuery } from "./policy/balance.js";
+import type { ApplicableBudget, BudgetHold, BudgetSnapshot } from "./policy/budget.js";
+import type { RateLimitSlot } from "./policy/ratelimit.js";
+import type { RequirementRejection } from "./policy/requirements.js";
+import type { ActivePolicy } from "./policy/scopes.js";
+import type { DecisionSettlementAudit } from "./receipt.js";
+import type { ShadowRequest } from "./shadow.js";
+import type { IdempotencyEntry } from "./stores/idempotency.js";
+import type { RoutedWallet } from "./wallets.js";
+import type { GuardError } from "./utils/errors.js";
+
+/**
+ * Per-`fetch()` decision context.
+ *
+ * x402 client policies/hooks are registered once per client, but they run inside the async call
+ * chain of a specific `guard.fetch()`. We bind a fresh context to each call with AsyncLocalStorage,
+ * so parallel requests through one guard never see (or overwrite) each other's audit state.
+ */
+export type GuardRequestContext = {
+  request: { url?: string; method?: string };
+  /** Id of the policy route this request resolved to (`"default"` if none matched). */
+  routeId: string;
+  /** Policy in force when this request started; `updatePolicy` does not change it mid-request. */
+  active?: ActivePolicy;
+  selected?: PaymentRequirements;
+  rejected: RequirementRejection[];
+  /** Multi-wallet guards: the wallet that signs `selected`, chosen before signing. */
+  wallet?: RoutedWallet;
+  /** Set when a guard policy/hook blocked payment; surfaced as-is by `fetch()`. */
+  blocked?: GuardError;
+  /** Budget holds taken before signing (one per applicable budget); cleared once committed or released. */
+  holds: BudgetHold[];
+  /** Rate limit slots taken before signing; cleared once committed or released. */
+  rateSlots: RateLimitSlot[];
+  /** Amount debited from the cached wallet balance (`minRemainingBalanceUsd`); cleared once committed or released. */
+  balanceDebit?: { query: BalanceQuery; amountBaseUnits: bigint };
+  /** Circuit breaker for this request's endpoint; `trial` = this request holds the half-open trial. */
+  circuit?: { key: string; trial: boolean };
+  /** Set for attempts made by `fetchWithRetry()`; `remainingUsdMicros` is what `maxTotalUsd` still allows. */
+  attempt?: { id: string; index: number; remainingUsdMicros?: bigint };
+  /**
+   * Idempotency key of this request, if any. `claim`: the pending entry this request stored;
+   * `paid`: a payload was signed and the key recorded as paid.
+   */
+  idempotency?: { key: string; derived: boolean; ttlMs: number; allowRepeat: boolean; claim?: IdempotencyEntry; paid: boolean };
+  /** Outcome of `requestApproval`, if this payment needed one. */
+  approval?: {
+    decision: "approve" | "deny" | "timeout";
+    approver?: string;
+    reason?: string;
+    requestedAt: number;
+    decidedAt: number;
+  };
+  /** Shadow evaluation of the configured policy (`enforcement: "shadow"`). */
+  observed?: ShadowRequest;
+  /** Shadow evaluation of `shadowPolicy`. */
+  shadow?: ShadowRequest;
+  /** Set once a payment payload was signed for this request. */
+  signed?: boolean;
+  /** USD micros of the payment signed for this request, if one was (and it could be valued). */
+  paidUsdMicros?: bigint;
+  /** What the server did with the signed payment, read from its response. */
+  spent?: { spent: boolean; settlement?: DecisionSettlementAudit };
+  /** Snapshots of every applicable budget, for the decision record. */
+  budgets: Array<{ target: ApplicableBudget; before?: BudgetSnapshot; after?: BudgetSnapshot }>;
+};
+
+export class RequestContextStore {
+  private readonly storage = new AsyncLocalStorage<GuardRequestContext>();
+
+  run<T>(
+    request: GuardRequestContext["request"],
+    routeId: string,
+    fn: (ctx: GuardRequestContext) => Promise<T>,
+  ): Promise<T> {
+    const ctx: GuardRequestContext = { request, routeId, rejected: [], holds: [], rateSlots: [], budgets: [] };
+    return this.storage.run(ctx, () => fn(ctx));
+  }
+
+  /**
+   * Context of the `fetch()` currently executing, if any.
+   * Undefined when the wrapped x402 client is used directly (outside the guard).
+   */
+  current(): GuardRequestContext | undefined {
+    return this.storage.getStore();
+  }
+}
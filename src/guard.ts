@@ -1,29 +1,165 @@
+import { randomUUID } from "node:crypto";
 import { wrapFetchWithPayment, type x402Client } from "@x402/fetch";
+import { decodePaymentResponseHeader } from "@x402/core/http";
 import type { PaymentRequirements } from "@x402/core/types";
 
-import { RollingBudget } from "./policy/budget.js";
+import {
+  BudgetLedger,
+  budgetWindowError,
+  checkAll,
+  reserveAll,
+  scopedBudgetId,
+  type ApplicableBudget,
+  type BudgetSnapshot,
+} from "./policy/budget.js";
+import { circuitOpenError, CircuitBreakers, type CircuitSnapshot } from "./policy/breaker.js";
 import { enforceResponseConditions } from "./policy/conditions.js";
 import { parseUsdcAmountBaseUnits, usdToUsdcBaseUnits, validatePolicy, type GuardPolicy } from "./policy/policy.js";
-import { evaluatePaymentRequirements } from "./policy/requirements.js";
+import { BalanceCache, balanceFloorError, type BalanceProvider, type BalanceQuery } from "./policy/balance.js";
+import {
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+  requestApprovalWithTimeout,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+  type ApprovalResult,
+} from "./policy/approval.js";
+import { DEFAULT_IDEMPOTENCY_TTL_MS, IDEMPOTENCY_PENDING_LEASE_MS, deriveIdempotencyKey } from "./policy/idempotency.js";
+import { endpointPriceReference, recordEndpointPrice } from "./policy/prices.js";
+import { applicableRateLimits, rateLimitError, RateLimiter } from "./policy/ratelimit.js";
+import { evaluatePaymentRequirements, noAcceptableRequirementsError } from "./policy/requirements.js";
+import { activatePolicy, applicableBudgets, type ActivePolicy, type PolicyScope } from "./policy/scopes.js";
+import { routeWallet, type WalletCapabilities } from "./policy/wallets.js";
+import { DEFAULT_ROUTE_ID, resolveRoute, type RoutePolicy } from "./policy/router.js";
 import { GuardError } from "./utils/errors.js";
-import type { GuardDecision } from "./receipt.js";
+import {
+  backoffDelayMs,
+  DEFAULT_BACKOFF,
+  isRetryable,
+  validateRetryOptions,
+  type RetryAttemptAudit,
+  type RetryOptions,
+} from "./retry.js";
+import { RequestContextStore, type GuardRequestContext } from "./context.js";
+import { readPaymentRequired, type GuardQuote, type QuoteBudget, type QuoteOption } from "./quote.js";
+import type {
+  DecisionCircuitAudit,
+  DecisionSettlementAudit,
+  DecisionWouldDeny,
+  DecisionPolicyChange,
+  GuardDecision,
+  PolicyChangedEvent,
+} from "./receipt.js";
+import { PASS_THROUGH_POLICY, ShadowEvaluator, type EnforcementMode, type ShadowRequest } from "./shadow.js";
+import { jsonDiff } from "./utils/json.js";
+import { endpointOf } from "./utils/url.js";
+import type { BudgetStore } from "./stores/budget.js";
+import { InMemoryIdempotencyStore, type IdempotencyEntry, type IdempotencyStore } from "./stores/idempotency.js";
+import { InMemoryPriceHistoryStore, type PriceHistoryStore } from "./stores/prices.js";
+import { validateWallets, walletCapabilities, walletRouterClient, type GuardWallet } from "./wallets.js";
 
 export type X402GuardConfig = {
   /**
    * A configured x402 client (schemes registered, signer set up).
    * x402-guard does not modify x402; it wraps the client with policy.
+   * Set either `client` or `wallets`.
    */
-  client: x402Client;
+  client?: x402Client;
+
+  /**
+   * Several signers instead of one `client`, e.g. separate hot wallets per risk tier or network.
+   * `policy.wallets` decides which one pays for what; the guard registers its policies and hooks on
+   * its own routing client, not on the wallets' clients.
+   */
+  wallets?: GuardWallet[];
+
   policy: GuardPolicy;
 
+  /**
+   * `"enforce"` (default) blocks payments/responses that fail `policy`.
+   * `"shadow"` lets everything through unchanged but still runs every check of `policy` and marks
+   * decision records with `wouldDeny` — use it to see what a new policy would block before enabling it.
+   * In shadow mode spend is tracked in in-memory shadow budgets (`budgetStore` is not used).
+   */
+  enforcement?: EnforcementMode;
+
+  /**
+   * A candidate policy evaluated next to the enforced one, without effect.
+   * Decision records carry its outcome under `shadow` (`route`, `wouldDeny`).
+   */
+  shadowPolicy?: GuardPolicy;
+
+  /**
+   * Where rolling-budget spend events are kept. Defaults to an in-memory store.
+   * Use a persistent store (e.g. `FileBudgetStore`) so a restarted agent does not get a fresh budget.
+   *
+   * With several budgets (per-route or scoped `budgets`), pass a factory: it is called once per budget
+   * key (`"default"`, `"route:<id>"`, `"origin:<id>:<origin>"`, ...). A single store instance only
+   * holds the default budget; a policy with any other budget is then `POLICY_INVALID`.
+   */
+  budgetStore?: BudgetStore | ((key: string) => BudgetStore);
+
   /**
    * Optional audit hook for production logging / demos.
    * Called on allow/deny with a structured decision record.
    *
-   * NOTE: current implementation is single-flight oriented (demo use); concurrent requests may
-   * interleave decision context. Production would attach per-request context explicitly.
+   * Each record is built from the context of its own `fetch()` call, so concurrent requests
+   * through one guard produce independent, correct records.
    */
   onDecision?: (record: GuardDecision) => void;
+
+  /** Called after `updatePolicy()` replaced the policy, with a diff of what changed. */
+  onPolicyChange?: (event: PolicyChangedEvent) => void;
+
+  /**
+   * Where paid idempotency keys are remembered. Defaults to an in-memory store; use
+   * `FileIdempotencyStore` so a restarted agent re-issuing a request does not pay twice.
+   */
+  idempotencyStore?: IdempotencyStore;
+
+  /**
+   * Where prices paid per endpoint are kept for `policy.priceAnomaly`. Defaults to an in-memory store;
+   * use `FilePriceHistoryStore` so a pinned first price survives restarts.
+   */
+  priceHistoryStore?: PriceHistoryStore;
+
+  /**
+   * Reads wallet token balances for `policy.minRemainingBalanceUsd` (required if any policy or route
+   * sets it), e.g. `ViemBalanceProvider`. Reads are cached for `balanceCacheTtlMs` (default 5s).
+   */
+  balanceProvider?: BalanceProvider;
+  balanceCacheTtlMs?: number;
+
+  /** Address `client` pays from; needed for `policy.minRemainingBalanceUsd` (wallets carry their own). */
+  payerAddress?: string;
+
+  /**
+   * Asked before signing any payment above `policy.approval.thresholdUsd` (required if any policy
+   * or route sets `approval`). Resolve with approve / deny / timeout; see `ApprovalRequest`.
+   */
+  requestApproval?: (request: ApprovalRequest) => Promise<ApprovalResult>;
+};
+
+/** Per-call options for `guard.fetch()` / `guard.fetchWithRetry()`. */
+export type GuardFetchOptions = {
+  /** Identifies one logical request; a second payment for the same key is blocked (`PAYMENT_BLOCKED_DUPLICATE`). */
+  idempotencyKey?: string;
+  /** Pay even if the key was already paid for (the new payment is recorded under the key). */
+  allowRepeatPayment?: boolean;
+};
+
+/** Point-in-time view of the guard's enforcement state (`guard.status()`). */
+export type GuardStatus = {
+  enforcement: EnforcementMode;
+  /** Every budget instance used so far, e.g. one per origin for an origin-scoped budget. */
+  budgets: Array<{
+    key: string;
+    windowMs: number;
+    limitBaseUnits: string;
+    committedBaseUnits: string;
+    reservedBaseUnits: string;
+  }>;
+  /** Circuit breaker of every endpoint seen so far. */
+  circuits: DecisionCircuitAudit[];
 };
 
 /**
@@ -35,82 +171,243 @@ export type X402GuardConfig = {
  *
  * Enforcement points:
  * - **Before payment** (safe / preferred): filter payment requirements and abort signing.
+ *   - per-endpoint policy routing (first matching route, else the default policy)
  *   - per-payment caps (overpricing)
+ *   - price anomalies against the endpoint's own price history (sudden price jumps under the cap)
+ *   - wallet routing (several signers): only requirements some wallet may pay, per-wallet budgets
  *   - selecting cheapest among acceptable requirements
- *   - rolling budget windows (retry-drain)
+ *   - rolling budget windows (retry-drain), including global / per-origin / per-endpoint budgets
+ *   - payment-count rate limits (many tiny payments), global / per-origin
+ *   - a floor on the paying wallet's on-chain balance (`minRemainingBalanceUsd`)
  * - **After response** (cannot prevent the first payment in pay-to-access flows):
  *   - response conditions (status/latency/schema) to stop “pay + junk + retry + pay” loops
+ *   - per-endpoint circuit breaker: repeated condition failures stop further payments to that endpoint
+ *
+ * `quote()` runs the pre-payment checks on a server's 402 offer without paying, so callers can see
+ * the price and whether it fits before committing.
  *
  * Note: In a pay-to-access model, the client typically must pay to receive the protected response.
  * Guardrails therefore focus on (a) preventing obviously-bad payments up front, and (b) preventing
  * repeated loss due to retries or low-quality responses.
  */
 export class X402Guard {
-  private readonly policy: GuardPolicy;
-  private readonly budget?: RollingBudget;
+  /** The policy as configured (what `updatePolicy` diffs against). */
+  private configured: GuardPolicy;
+  /** What is enforced: `configured`, or `PASS_THROUGH_POLICY` in shadow mode. */
+  private active: ActivePolicy;
+  private readonly ledger: BudgetLedger;
+  /** `budgetStore` is one instance rather than a factory: it can only hold the default budget. */
+  private readonly sharedBudgetStore: boolean;
+  private readonly breakers = new CircuitBreakers();
+  private readonly rateLimiter = new RateLimiter();
+  private readonly idempotency: IdempotencyStore;
+  private readonly prices: PriceHistoryStore;
+  private readonly balances?: BalanceCache;
+  private readonly payerAddress?: string;
+  /** Evaluates `config.policy` without enforcing it (`enforcement: "shadow"`). */
+  private readonly observed?: ShadowEvaluator;
+  /** Evaluates `config.shadowPolicy`. */
+  private readonly shadow?: ShadowEvaluator;
   private readonly client: x402Client;
+  /** Multi-wallet guards: what each configured wallet can sign (routing input). */
+  private readonly wallets?: WalletCapabilities[];
+  private readonly unpaidFetch: typeof fetch;
   private readonly paidFetch: (input: RequestInfo, init?: RequestInit) => Promise<Response>;
   private readonly onDecision?: (record: GuardDecision) => void;
-
-  // Best-effort context for audit records (demo-oriented; not concurrency-safe).
-  private lastSelected?: PaymentRequirements;
-  private lastRejected: Array<{
-    requirement: Pick<PaymentRequirements, "scheme" | "network" | "amount" | "asset" | "payTo">;
-    reason: "ABOVE_PER_PAYMENT_CAP";
-  }> = [];
-  private lastBudgetBefore?: bigint;
-  private lastBudgetAfter?: bigint;
+  private readonly onPolicyChange?: (event: PolicyChangedEvent) => void;
+  private readonly requestApproval?: (request: ApprovalRequest) => Promise<ApprovalResult>;
+  private readonly contexts = new RequestContextStore();
 
   constructor(fetchImpl: typeof fetch, config: X402GuardConfig) {
+    try {
+      if (!config.client === !config.wallets) throw new Error("set exactly one of client, wallets");
+      if (config.wallets) validateWallets(config.wallets);
+    } catch (e) {
+      throw new GuardError("POLICY_INVALID", "Invalid guard config.", { error: String(e) });
+    }
+    if (config.wallets) this.wallets = walletCapabilities(config.wallets);
+
     try {
       validatePolicy(config.policy);
     } catch (e) {
       throw new GuardError("POLICY_INVALID", "Invalid guard policy.", { error: String(e) });
     }
+    this.checkWalletRules(config.policy, "guard policy");
+    if (config.shadowPolicy) {
+      try {
+        validatePolicy(config.shadowPolicy);
+      } catch (e) {
+        throw new GuardError("POLICY_INVALID", "Invalid shadow policy.", { error: String(e) });
+      }
+      this.checkWalletRules(config.shadowPolicy, "shadow policy");
+      this.shadow = new ShadowEvaluator(config.shadowPolicy, this.wallets);
+    }
 
-    this.policy = config.policy;
-    this.client = config.client;
+    this.configured = config.policy;
+    if (config.enforcement === "shadow") this.observed = new ShadowEvaluator(config.policy, this.wallets);
+    const wallets = config.wallets;
+    this.client = wallets ? walletRouterClient(wallets, () => this.contexts.current()?.wallet) : config.client!;
     this.onDecision = config.onDecision;
+    this.onPolicyChange = config.onPolicyChange;
+    this.requestApproval = config.requestApproval;
+    this.idempotency = config.idempotencyStore ?? new InMemoryIdempotencyStore();
+    this.prices = config.priceHistoryStore ?? new InMemoryPriceHistoryStore();
+    if (config.balanceProvider) this.balances = new BalanceCache(config.balanceProvider, config.balanceCacheTtlMs);
+    this.payerAddress = config.payerAddress;
 
-    if (this.policy.budget) {
-      this.budget = new RollingBudget(
-        this.policy.budget.windowMs,
-        usdToUsdcBaseUnits(this.policy.budget.limitUsd),
-      );
-    }
+    const budgetStore = config.budgetStore;
+    this.sharedBudgetStore = budgetStore !== undefined && typeof budgetStore !== "function";
+    this.ledger = new BudgetLedger((key) =>
+      typeof budgetStore === "function" ? budgetStore(key) : key === DEFAULT_ROUTE_ID ? budgetStore : undefined,
+    );
+
+    this.active = this.activate(config.policy);
 
     // Filter unacceptable requirements (e.g., per-payment cap) before selection.
     this.client.registerPolicy((version, reqs) => this.applyRequirementPolicies(version, reqs));
 
-    // Enforce budget window before signing a payload (abort = no payment).
-    this.client.onBeforePaymentCreation(async ({ selectedRequirements }) => {
-      const amount = parseUsdcAmountBaseUnits(selectedRequirements as PaymentRequirements);
-      if (amount === null) return;
+    // Reserve budget before signing a payload (abort = no payment).
+    this.client.onBeforePaymentCreation(async ({ paymentRequired, selectedRequirements }) => {
+      const ctx = this.contexts.current();
+      if (ctx) ctx.selected = selectedRequirements as PaymentRequirements;
+      this.eachShadow(ctx, (evaluator, s) => evaluator.beforePayment(s, selectedRequirements as PaymentRequirements));
 
-      this.lastSelected = selectedRequirements as PaymentRequirements;
-      if (this.budget) this.lastBudgetBefore = this.budget.getTotal();
+      // Multi-wallet: pick the signer now, so its budget applies below and the router knows whom to ask.
+      if (config.wallets) {
+        const id = this.walletFor(ctx, selectedRequirements as PaymentRequirements);
+        const wallet = config.wallets.find((w) => w.id === id);
+        if (!ctx || !wallet) {
+          return this.block(
+            ctx,
+            new GuardError("PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS", "Blocked by wallet policy: no wallet may pay the selected requirement."),
+          );
+        }
+        ctx.wallet = { wallet, paymentRequired };
+      }
+
+      // An endpoint that keeps failing conditions gets no further payments until its cooldown passes.
+      const breakerPolicy = this.scopeOf(ctx).policy.circuitBreaker;
+      if (ctx && breakerPolicy) {
+        const key = this.circuitKey(ctx);
+        const circuit = this.breakers.check(key, breakerPolicy);
+        if (!circuit.ok) return this.block(ctx, circuitOpenError(key, circuit));
+        ctx.circuit = { key, trial: circuit.trial };
+      }
+
+      // fetchWithRetry(): every attempt of one logical request draws on the same `maxTotalUsd`.
+      const remaining = ctx?.attempt?.remainingUsdMicros;
+      if (ctx && remaining !== undefined) {
+        const next = this.scopeOf(ctx).assets.usdMicros(selectedRequirements as PaymentRequirements);
+        if (next === null || next > remaining) {
+          return this.block(
+            ctx,
+            new GuardError("PAYMENT_BLOCKED_RETRY_LIMIT", "Blocked by retry policy: payment would exceed maxTotalUsd for this request.", {
+              attemptId: ctx.attempt!.id,
+              attempt: ctx.attempt!.index,
+              remainingUsdMicros: remaining.toString(),
+              nextUsdMicros: next?.toString(),
+            }),
+          );
+        }
+      }
+
+      // A logical request that already paid (or is paying right now) is not signed again.
+      if (ctx?.idempotency) {
+        const duplicate = this.claimIdempotencyKey(ctx);
+        if (duplicate) return this.block(ctx, duplicate);
+      }
+
+      // Counted per payment, whatever the amount: tiny payments can stay under any budget.
+      const limits = applicableRateLimits((ctx?.active ?? this.active).policy.rateLimits, ctx?.request.url);
+      if (limits.length > 0) {
+        const taken = this.rateLimiter.take(limits);
+        if (!taken.ok) return this.block(ctx, rateLimitError(taken));
+        // Outside guard.fetch() nothing carries the slots to the after-hook; count them right away.
+        if (ctx) ctx.rateSlots = taken.slots;
+        else for (const slot of taken.slots) this.rateLimiter.commit(slot);
+      }
+
+      const targets = this.applicableBudgets(ctx);
+      const { approval, minRemainingBalanceUsd: floor } = this.scopeOf(ctx).policy;
+      if (targets.length === 0 && !approval && floor === undefined) return;
+
+      // Budgets are kept in USD micros so spend in different assets adds up meaningfully.
+      const amount = this.scopeOf(ctx).assets.usdMicros(selectedRequirements as PaymentRequirements);
+      if (amount === null) {
+        return this.block(
+          ctx,
+          new GuardError(
+            "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+            "Blocked by asset policy: selected requirement cannot be valued in USD.",
+          ),
+        );
+      }
+
+      if (targets.length > 0) {
+        if (ctx) ctx.budgets = targets.map((target) => ({ target, before: target.budget.snapshot() }));
+
+        // Outside guard.fetch() there is no context to carry holds to the after-hook,
+        // so fall back to a plain check (recorded after creation).
+        const check = ctx ? reserveAll(targets, amount) : checkAll(targets, amount);
 
-      if (this.budget) {
-        const check = this.budget.canSpend(amount);
         if (!check.ok) {
           // Abort BEFORE payment signature generation. This is the strongest safety lever:
           // no signature → no payment header → no settlement.
-          return {
-            abort: true,
-            reason: `Blocked by budget window policy: total=${check.total.toString()} + next=${amount.toString()} exceeds limit.`,
-          };
+          return this.block(ctx, budgetWindowError(check, amount));
         }
+        if (ctx) ctx.holds = check.holds;
+      }
+
+      // A chain read (cached): after the local checks, before anyone is asked to approve.
+      if (floor !== undefined) {
+        const denied = await this.checkBalanceFloor(ctx, selectedRequirements as PaymentRequirements, floor);
+        if (denied) return this.block(ctx, denied);
+      }
+
+      // Large payments wait for a human; the budget holds above are kept meanwhile.
+      if (approval && amount > usdToUsdcBaseUnits(approval.thresholdUsd)) {
+        const denied = await this.awaitApproval(ctx, selectedRequirements as PaymentRequirements, amount, approval, targets);
+        if (denied) return this.block(ctx, denied);
       }
     });
 
-    // Record spend after payload creation (best-effort accounting for demo).
+    // Commit holds once the payload exists (a signed payload may be settled).
     this.client.onAfterPaymentCreation(async ({ selectedRequirements }) => {
-      const amount = parseUsdcAmountBaseUnits(selectedRequirements as PaymentRequirements);
+      const ctx = this.contexts.current();
+      if (ctx) {
+        this.eachShadow(ctx, (evaluator, s) => evaluator.afterPayment(s, selectedRequirements as PaymentRequirements));
+        ctx.signed = true;
+        const scope = this.scopeOf(ctx);
+        ctx.paidUsdMicros = scope.assets.usdMicros(selectedRequirements as PaymentRequirements) ?? undefined;
+        if (ctx.paidUsdMicros !== undefined) {
+          recordEndpointPrice(this.prices, scope.policy.priceAnomaly, ctx.request.url, ctx.paidUsdMicros);
+        }
+        const idem = ctx.idempotency;
+        if (idem && (idem.claim || idem.allowRepeat)) {
+          const now = Date.now();
+          this.idempotency.put({ key: idem.key, state: "paid", at: now, expiresAt: now + idem.ttlMs });
+          idem.paid = true;
+        }
+        for (const h of ctx.holds) h.target.budget.commit(h.reservation);
+        ctx.holds = [];
+        for (const slot of ctx.rateSlots) this.rateLimiter.commit(slot);
+        ctx.rateSlots = [];
+        if (ctx.balanceDebit) this.balances?.commit(ctx.balanceDebit.query, ctx.balanceDebit.amountBaseUnits);
+        ctx.balanceDebit = undefined;
+        for (const line of ctx.budgets) line.after = line.target.budget.snapshot();
+        return;
+      }
+      const amount = this.scopeOf(undefined).assets.usdMicros(selectedRequirements as PaymentRequirements);
       if (amount === null) return;
-      this.budget?.record(amount);
-      if (this.budget) this.lastBudgetAfter = this.budget.getTotal();
+      for (const target of this.applicableBudgets(undefined)) target.budget.record(amount);
+    });
+
+    // Signing failed: nothing can settle, so give the capacity back right away.
+    this.client.onPaymentCreationFailure(async () => {
+      this.releaseHold(this.contexts.current());
     });
 
+    this.unpaidFetch = fetchImpl;
     this.paidFetch = wrapFetchWithPayment(fetchImpl, this.client);
   }
 
@@ -123,70 +420,340 @@ export class X402Guard {
    *
    * If a policy blocks payment or a condition fails, this throws `GuardError`.
    */
-  async fetch(input: RequestInfo, init?: RequestInit): Promise<Response> {
+  async fetch(input: RequestInfo, init?: RequestInit, options: GuardFetchOptions = {}): Promise<Response> {
+    return this.guardedFetch(input, init, options);
+  }
+
+  /**
+   * `fetch()` with a bounded retry loop for one logical request.
+   *
+   * Retries only service failures (failed response conditions, 5xx); policy and budget blocks are
+   * thrown at once. `maxPaidAttempts` caps attempts that sign a payment and `maxTotalUsd` caps their
+   * summed value (checked before signing, `PAYMENT_BLOCKED_RETRY_LIMIT`).
+   *
+   * Each attempt emits its own decision record tagged with `attempt: { id, index }`; afterwards one
+   * aggregate record (`retry`) lists every attempt under the same id. Returns the last response, or
+   * throws the last error.
+   *
+   * Pass the request body via `init` (not a `Request`), so every attempt can resend it.
+   *
+   * An idempotency key is claimed by the first attempt that pays; once it paid, later attempts of the
+   * same call are deliberate repeats and may pay again under that key.
+   */
+  async fetchWithRetry(
+    input: RequestInfo,
+    init: RequestInit | undefined,
+    options: RetryOptions & GuardFetchOptions,
+  ): Promise<Response> {
+    try {
+      validateRetryOptions(options);
+    } catch (e) {
+      throw new GuardError("POLICY_INVALID", "Invalid retry options.", { error: String(e) });
+    }
+
+    const id = randomUUID();
     const startedAt = Date.now();
-    this.lastRejected = [];
-    this.lastSelected = undefined;
-    this.lastBudgetBefore = undefined;
-    this.lastBudgetAfter = undefined;
+    const maxAttempts = options.maxAttempts ?? options.maxPaidAttempts;
+    const maxTotal = options.maxTotalUsd !== undefined ? usdToUsdcBaseUnits(options.maxTotalUsd) : undefined;
+    const backoff = options.backoff ?? DEFAULT_BACKOFF;
+    const attempts: RetryAttemptAudit[] = [];
+    let paidAttempts = 0;
+    let totalPaid = 0n;
+    // Only a key this call already paid under may be paid again; until then every attempt claims it.
+    let keyPaidByCall = false;
+    let last: { response?: Response; error?: unknown; ctx?: GuardRequestContext } = {};
 
-    const reqUrl = typeof input === "string" ? input : input instanceof Request ? input.url : undefined;
-    const reqMethod =
-      init?.method ?? (input instanceof Request ? input.method : undefined);
+    for (let index = 1; index <= maxAttempts; index += 1) {
+      if (index > 1) await sleep(backoffDelayMs(backoff, index - 1));
+
+      const attempt = { id, index, remainingUsdMicros: maxTotal !== undefined ? maxTotal - totalPaid : undefined };
+      last = {};
+      try {
+        last.response = await this.guardedFetch(
+          input,
+          init,
+          { idempotencyKey: options.idempotencyKey, allowRepeatPayment: options.allowRepeatPayment || keyPaidByCall },
+          attempt,
+          (ctx) => (last.ctx = ctx),
+        );
+      } catch (e) {
+        last.error = e;
+      }
+
+      if (last.ctx?.idempotency?.paid) keyPaidByCall = true;
+      const paid = last.ctx?.paidUsdMicros;
+      if (paid !== undefined) {
+        paidAttempts += 1;
+        totalPaid += paid;
+      }
+      attempts.push({
+        index,
+        decision: last.response ? "allow" : "deny",
+        code: last.error instanceof GuardError ? last.error.code : undefined,
+        status: last.response?.status,
+        paidUsdMicros: paid?.toString(),
+      });
+
+      if (!isRetryable(last) || paidAttempts >= options.maxPaidAttempts || index === maxAttempts) break;
+      // The failed response is discarded; free its body.
+      await last.response?.body?.cancel().catch(() => {});
+    }
+
+    const base = {
+      at: new Date().toISOString(),
+      request: last.ctx?.request ?? requestOf(input, init),
+      route: last.ctx?.routeId,
+      retry: { id, attempts, paidAttempts, totalPaidUsdMicros: totalPaid.toString() },
+    };
+    if (last.response) {
+      this.emitDecision({ decision: "allow", ...base, response: { status: last.response.status, latencyMs: Date.now() - startedAt } });
+      return last.response;
+    }
+    const ge = last.error instanceof GuardError ? last.error : undefined;
+    this.emitDecision({
+      decision: "deny",
+      ...base,
+      code: ge?.code ?? "POLICY_INVALID",
+      explanation: ge?.explanation ?? String(last.error),
+      details: ge?.details,
+    });
+    throw last.error;
+  }
+
+  /**
+   * What would paying for this request cost, and would the guard allow it? Nothing is paid.
+   *
+   * Sends the request once without a payment. If the server answers 402, its offer goes through the
+   * same requirement evaluation as `fetch()` (merchant rules, valuation, caps, price anomalies,
+   * selection), and the selected option is checked against every applicable budget. Nothing is
+   * signed, reserved or recorded, and no decision record is emitted. The server does receive the
+   * unpaid request, so pass the body via `init` if the request is to be sent again with `fetch()`.
+   * In shadow mode `payable` describes what is enforced (always true); `wouldDeny` and `shadow` say
+   * what the observed and candidate policies would block.
+   *
+   * Throws only if the request cannot be quoted: no route under strict routing, or an unreadable offer.
+   */
+  async quote(input: RequestInfo, init?: RequestInit): Promise<GuardQuote> {
+    const request = requestOf(input, init);
+    const active = this.active;
+    const route = resolveRoute(active.policy, request);
+    if (!route) throw noRouteError(request);
+    const scope = active.scopes.get(route.routeId) ?? active.scopes.get(DEFAULT_ROUTE_ID)!;
+
+    const res = await this.unpaidFetch(input, init);
+    const base = { request, route: route.routeId, status: res.status, rejected: [], budgets: [] };
+    if (res.status !== 402) {
+      await res.body?.cancel().catch(() => {});
+      return { ...base, paymentRequired: false, options: [], payable: true, ...this.shadowQuote(request) };
+    }
+
+    const offer = await readPaymentRequired(this.client, res);
+    const { acceptable, rejected } = evaluatePaymentRequirements(scope.policy, offer.accepts, {
+      assets: scope.assets,
+      url: request.url,
+      prices: endpointPriceReference(this.prices, scope.policy.priceAnomaly, request.url),
+      canPay: this.canPay(active.policy),
+    });
+    const optionOf = (requirement: PaymentRequirements): QuoteOption => ({
+      requirement,
+      usdMicros: scope.assets.usdMicros(requirement)?.toString(),
+    });
+
+    const selected = acceptable[0];
+    const wallet = this.wallets && selected ? routeWallet(this.wallets, active.policy.wallets, selected, scope.assets.usdMicros(selected)) : undefined;
+    const targets = applicableBudgets(active.policy, scope, this.ledger, request.url, wallet);
+
+    let blocked: GuardError | undefined;
+    if (!selected) blocked = noAcceptableRequirementsError(offer.accepts, rejected);
+    else {
+      // Acceptable options have all been valued.
+      const amount = scope.assets.usdMicros(selected)!;
+      const check = checkAll(targets, amount);
+      if (!check.ok) blocked = budgetWindowError(check, amount);
+    }
+
+    return {
+      ...base,
+      paymentRequired: true,
+      x402Version: offer.x402Version,
+      options: offer.accepts.map(optionOf),
+      selected: selected && optionOf(selected),
+      wallet,
+      rejected,
+      budgets: targets.map(budgetQuote),
+      payable: !blocked,
+      blocked: wouldDenyAudit(blocked),
+      ...this.shadowQuote(request, offer.accepts),
+    };
+  }
+
+  /** The `quote()` fields of the observed policy and of `shadowPolicy`, as in decision records. */
+  private shadowQuote(
+    request: GuardQuote["request"],
+    accepts?: PaymentRequirements[],
+  ): Pick<GuardQuote, "enforcement" | "wouldDeny" | "shadow"> {
+    const observed = this.observed?.quote(request, accepts);
+    const shadow = this.shadow?.quote(request, accepts);
+    return {
+      enforcement: observed && ("shadow" as const),
+      wouldDeny: observed && wouldDenyAudit(observed.wouldDeny),
+      shadow: shadow && { route: shadow.route, wouldDeny: wouldDenyAudit(shadow.wouldDeny) },
+    };
+  }
+
+  /**
+   * Replaces the policy without recreating the guard.
+   *
+   * `next` is validated as a whole first; if it is invalid nothing changes (`POLICY_INVALID`).
+   * Budget spend, circuit breakers and idempotency keys carry over: a budget whose `limitUsd` or
+   * `windowMs` changed keeps its spend events and in-flight holds under the new limits. Requests
+   * already in flight finish under the policy they started with.
+   *
+   * Returns the changes (also emitted as a `policy_changed` event); an identical policy is a no-op.
+   */
+  updatePolicy(next: GuardPolicy, options: { source?: string } = {}): DecisionPolicyChange[] {
+    try {
+      validatePolicy(next);
+    } catch (e) {
+      throw new GuardError("POLICY_INVALID", "Invalid guard policy.", { error: String(e) });
+    }
+    this.checkWalletRules(next, "guard policy");
+    const active = this.observed ? this.active : this.activate(next);
+
+    const changes = jsonDiff(this.configured, next);
+    if (changes.length === 0) return [];
+
+    this.configured = next;
+    this.active = active;
+    this.observed?.update(next);
+    try {
+      this.onPolicyChange?.({ event: "policy_changed", at: new Date().toISOString(), source: options.source, changes });
+    } catch {
+      // Never allow audit hooks to break the caller.
+    }
+    return changes;
+  }
+
+  /**
+   * Budget usage and circuit breaker states, e.g. for a health or status endpoint. In shadow mode these
+   * are the enforced (pass-through) ones; the observed policy's state is only in decision records.
+   */
+  status(): GuardStatus {
+    return {
+      enforcement: this.observed ? "shadow" : "enforce",
+      budgets: this.ledger.entries().map(([key, budget]) => {
+        const { committed, reserved } = budget.snapshot();
+        return {
+          key,
+          windowMs: budget.windowMs,
+          limitBaseUnits: budget.limitBaseUnits.toString(),
+          committedBaseUnits: committed.toString(),
+          reservedBaseUnits: reserved.toString(),
+        };
+      }),
+      circuits: this.breakers.snapshots().map(circuitAudit),
+    };
+  }
+
+  private async guardedFetch(
+    input: RequestInfo,
+    init: RequestInit | undefined,
+    options: GuardFetchOptions,
+    attempt?: GuardRequestContext["attempt"],
+    onContext?: (ctx: GuardRequestContext) => void,
+  ): Promise<Response> {
+    const request = requestOf(input, init);
+    const active = this.active;
+    const route = resolveRoute(active.policy, request);
+    if (!route) {
+      const ge = noRouteError(request);
+      this.emitDecision({
+        decision: "deny",
+        at: new Date().toISOString(),
+        request,
+        code: ge.code,
+        explanation: ge.explanation,
+        details: ge.details,
+      });
+      throw ge;
+    }
+
+    return this.contexts.run(request, route.routeId, async (ctx) => {
+      ctx.active = active;
+      ctx.attempt = attempt;
+      ctx.idempotency = this.idempotencyFor(request, input, init, options, route.policy);
+      ctx.observed = this.observed?.begin(request);
+      ctx.shadow = this.shadow?.begin(request);
+      onContext?.(ctx);
+      try {
+        return await this.fetchInContext(ctx, input, init);
+      } finally {
+        // Any hold not committed by now belongs to a request that never produced a payment.
+        this.releaseHold(ctx);
+        // A half-open trial that never reached a verdict must not keep the endpoint locked.
+        if (ctx.circuit?.trial) this.breakers.releaseTrial(ctx.circuit.key);
+        // A claimed key that never led to a signature must not block the caller's next try.
+        if (ctx.idempotency?.claim && !ctx.idempotency.paid) this.idempotency.release(ctx.idempotency.claim);
+        this.eachShadow(ctx, (evaluator, s) => evaluator.finish(s));
+      }
+    });
+  }
+
+  private async fetchInContext(ctx: GuardRequestContext, input: RequestInfo, init?: RequestInit): Promise<Response> {
+    const startedAt = Date.now();
 
     let res: Response;
     try {
       res = await this.paidFetch(input, init);
     } catch (e: any) {
-      // The x402 client uses the before-hook abort reason; surface it as a GuardError.
+      // x402 wraps errors from our policies/hooks in plain Errors; prefer the GuardError we recorded.
       const msg = typeof e?.message === "string" ? e.message : String(e);
-      if (msg.includes("abort") || msg.includes("Blocked by")) {
-        const ge = new GuardError("PAYMENT_BLOCKED_BUDGET_WINDOW", msg);
+      if (ctx.blocked || msg.includes("abort") || msg.includes("Blocked by")) {
+        const ge = ctx.blocked ?? new GuardError("PAYMENT_BLOCKED_BUDGET_WINDOW", msg);
         this.emitDecision({
           decision: "deny",
-          at: new Date().toISOString(),
-          request: { url: reqUrl, method: reqMethod },
+          ...this.auditFields(ctx),
           code: ge.code,
           explanation: ge.explanation,
           details: ge.details,
-          payment: this.buildPaymentAudit(),
         });
         throw ge;
       }
       // Unknown error path: still emit a denial record for observability.
       this.emitDecision({
         decision: "deny",
-        at: new Date().toISOString(),
-        request: { url: reqUrl, method: reqMethod },
+        ...this.auditFields(ctx),
         code: "POLICY_INVALID",
         explanation: msg,
-        payment: this.buildPaymentAudit(),
       });
       throw e;
     }
 
+    if (ctx.signed) ctx.spent = spentOf(res);
+    if (ctx.observed) await this.observed!.response(ctx.observed, res, startedAt);
+    if (ctx.shadow) await this.shadow!.response(ctx.shadow, res, startedAt);
+
+    const { policy } = this.scopeOf(ctx);
     try {
-      await enforceResponseConditions(res, startedAt, this.policy.conditions);
+      await enforceResponseConditions(res, startedAt, policy.conditions);
     } catch (e: any) {
       if (e instanceof GuardError) {
+        if (policy.circuitBreaker) this.breakers.recordFailure(this.circuitKey(ctx), policy.circuitBreaker);
         this.emitDecision({
           decision: "deny",
-          at: new Date().toISOString(),
-          request: { url: reqUrl, method: reqMethod },
+          ...this.auditFields(ctx),
           code: e.code,
           explanation: e.explanation,
           details: e.details,
-          payment: this.buildPaymentAudit(),
         });
       }
       throw e;
     }
 
+    if (policy.circuitBreaker) this.breakers.recordSuccess(this.circuitKey(ctx));
     this.emitDecision({
       decision: "allow",
-      at: new Date().toISOString(),
-      request: { url: reqUrl, method: reqMethod },
-      payment: this.buildPaymentAudit(),
+      ...this.auditFields(ctx),
       response: { status: res.status, latencyMs: Date.now() - startedAt },
     });
     return res;
@@ -196,26 +763,164 @@ export class X402Guard {
    * Applies deterministic filtering/sorting to the server-provided `accepts` list.
    *
    * This is where we prevent “malicious overpricing”:
+   * - reject counterparties/networks/schemes/assets outside the merchant policy
+   * - reject assets we cannot value in USD (unknown token / decimals / price)
    * - filter out requirements above `maxPerPaymentUsd`
+   * - filter out requirements priced far above the endpoint's history (`priceAnomaly`)
+   * - filter out requirements no wallet may pay (multi-wallet guards)
    * - optionally sort remaining requirements cheapest-first
    *
    * IMPORTANT: This runs *before* the x402 client selects a requirement to sign.
    */
   private applyRequirementPolicies(_x402Version: number, reqs: PaymentRequirements[]): PaymentRequirements[] {
-    const { acceptable, rejected } = evaluatePaymentRequirements(this.policy, reqs);
-    this.lastRejected = rejected;
+    const ctx = this.contexts.current();
+    this.eachShadow(ctx, (evaluator, s) => evaluator.requirements(s, reqs));
+    const scope = this.scopeOf(ctx);
+    const { acceptable, rejected } = evaluatePaymentRequirements(scope.policy, reqs, {
+      assets: scope.assets,
+      url: ctx?.request.url,
+      prices: endpointPriceReference(this.prices, scope.policy.priceAnomaly, ctx?.request.url),
+      canPay: this.canPay((ctx?.active ?? this.active).policy),
+    });
+    if (ctx) ctx.rejected = rejected;
 
     if (acceptable.length === 0) {
       // Fail-closed: if we filtered everything, we want selection to fail loudly.
-      throw new GuardError(
-        "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
-        "No acceptable payment requirements remain after applying guard policy.",
-        { available: reqs.map((r) => ({ scheme: r.scheme, network: r.network, amount: r.amount, payTo: r.payTo })) },
-      );
+      const ge = noAcceptableRequirementsError(reqs, rejected);
+      if (ctx) ctx.blocked = ge;
+      throw ge;
     }
     return acceptable;
   }
 
+  /** Records why a hook blocked payment (x402 only propagates a reason string) and aborts signing. */
+  private block(ctx: GuardRequestContext | undefined, error: GuardError): { abort: true; reason: string } {
+    if (ctx) ctx.blocked = error;
+    return { abort: true, reason: error.explanation };
+  }
+
+  /** Scopes for `policy` (or for `PASS_THROUGH_POLICY` in shadow mode), checked for what the config can support. */
+  private activate(policy: GuardPolicy): ActivePolicy {
+    const active = activatePolicy(this.observed ? PASS_THROUGH_POLICY : policy);
+    if (!this.requestApproval && [...active.scopes.values()].some((s) => s.policy.approval)) {
+      // Fail closed: an approval threshold nobody can answer would otherwise be silently ignored.
+      throw new GuardError("POLICY_INVALID", "Invalid guard policy.", {
+        error: "policy.approval requires requestApproval in the guard config",
+      });
+    }
+    const balanceReadable = this.balances && (this.wallets || this.payerAddress);
+    if (!balanceReadable && [...active.scopes.values()].some((s) => s.policy.minRemainingBalanceUsd !== undefined)) {
+      // Same for a balance floor nobody can read.
+      throw new GuardError("POLICY_INVALID", "Invalid guard policy.", {
+        error: "policy.minRemainingBalanceUsd requires balanceProvider (and payerAddress, without wallets) in the guard config",
+      });
+    }
+    const keyed = this.sharedBudgetStore ? otherBudgetKey(active) : undefined;
+    if (keyed) {
+      // A single store cannot keep several budgets apart; the others would quietly stay in memory.
+      throw new GuardError("POLICY_INVALID", "Invalid guard policy.", {
+        error: `budget "${keyed}" needs its own store: pass budgetStore as a factory, e.g. FileBudgetStore.inDirectory(dir)`,
+      });
+    }
+    return active;
+  }
+
+  /** Policy scope of the current request; hooks running outside `fetch()` use the default policy. */
+  private scopeOf(ctx: GuardRequestContext | undefined): PolicyScope {
+    const { scopes } = ctx?.active ?? this.active;
+    return scopes.get(ctx?.routeId ?? DEFAULT_ROUTE_ID) ?? scopes.get(DEFAULT_ROUTE_ID)!;
+  }
+
+  /**
+   * Budgets a payment for this request must fit in: the route's `budget` plus every scoped budget
+   * (global / per-origin / per-endpoint) instance for the request URL.
+   */
+  private applicableBudgets(ctx: GuardRequestContext | undefined): ApplicableBudget[] {
+    const { policy } = ctx?.active ?? this.active;
+    return applicableBudgets(policy, this.scopeOf(ctx), this.ledger, ctx?.request.url, ctx?.wallet?.wallet.id);
+  }
+
+  /** Multi-wallet guards: the id of the wallet that pays `requirement` under the request's policy. */
+  private walletFor(ctx: GuardRequestContext | undefined, requirement: PaymentRequirements): string | undefined {
+    if (!this.wallets) return undefined;
+    const usdMicros = this.scopeOf(ctx).assets.usdMicros(requirement);
+    return routeWallet(this.wallets, (ctx?.active ?? this.active).policy.wallets, requirement, usdMicros);
+  }
+
+  /** Requirement filter for `evaluatePaymentRequirements`: some wallet may pay it (undefined with a single client). */
+  private canPay(policy: GuardPolicy): ((requirement: PaymentRequirements, usdMicros: bigint) => boolean) | undefined {
+    const wallets = this.wallets;
+    if (!wallets) return undefined;
+    return (requirement, usdMicros) => routeWallet(wallets, policy.wallets, requirement, usdMicros) !== undefined;
+  }
+
+  /** Fail closed: a rule naming a wallet that is not configured would otherwise be skipped silently. */
+  private checkWalletRules(policy: GuardPolicy, label: string): void {
+    const unknown = policy.wallets?.find((rule) => !this.wallets?.some((w) => w.id === rule.id));
+    if (!unknown) return;
+    throw new GuardError("POLICY_INVALID", `Invalid ${label}.`, {
+      error: this.wallets
+        ? `policy.wallets names wallet "${unknown.id}", which is not in the guard config`
+        : "policy.wallets requires wallets in the guard config",
+    });
+  }
+
+  /** Gives back budget holds, rate limit slots and the balance debit of a request that has not signed (yet). */
+  private releaseHold(ctx: GuardRequestContext | undefined) {
+    if (!ctx) return;
+    for (const h of ctx.holds) h.target.budget.release(h.reservation);
+    ctx.holds = [];
+    for (const slot of ctx.rateSlots) this.rateLimiter.release(slot);
+    ctx.rateSlots = [];
+    if (ctx.balanceDebit) this.balances?.release(ctx.balanceDebit.query, ctx.balanceDebit.amountBaseUnits);
+    ctx.balanceDebit = undefined;
+  }
+
+  /**
+   * Checks `minRemainingBalanceUsd` for the wallet paying `requirement` and debits the cached balance;
+   * returns the error to block with if the payment would go below the floor or the balance is unknown.
+   */
+  private async checkBalanceFloor(
+    ctx: GuardRequestContext | undefined,
+    requirement: PaymentRequirements,
+    floorUsd: number,
+  ): Promise<GuardError | null> {
+    // `activate` made sure both exist.
+    const query: BalanceQuery = {
+      network: requirement.network,
+      asset: requirement.asset,
+      address: ctx?.wallet?.wallet.address ?? this.payerAddress!,
+    };
+    const next = parseUsdcAmountBaseUnits(requirement) ?? 0n;
+    try {
+      await this.balances!.available(query);
+    } catch (e) {
+      return balanceFloorError(query, floorUsd, { nextBaseUnits: next, error: e instanceof Error ? e.message : String(e) });
+    }
+
+    const assets = this.scopeOf(ctx).assets;
+    // Rounded down: what is left is never over-valued against the floor (fail-closed).
+    const remainingUsd = (remaining: bigint) =>
+      remaining < 0n ? null : assets.usdMicros({ ...requirement, amount: remaining.toString() }, "down");
+    const floor = usdToUsdcBaseUnits(floorUsd);
+    // No `await` between the check and the debit: concurrent payments must see each other's debits.
+    const debit = this.balances!.tryDebit(query, next, (remaining) => {
+      const usd = remainingUsd(remaining);
+      return usd !== null && usd >= floor;
+    });
+    if (!debit.ok) {
+      return balanceFloorError(query, floorUsd, {
+        availableBaseUnits: debit.availableBaseUnits,
+        nextBaseUnits: next,
+        remainingUsdMicros: remainingUsd(debit.availableBaseUnits - next),
+      });
+    }
+    // Outside guard.fetch() nothing carries the debit to the after-hook; count it as signed.
+    if (ctx) ctx.balanceDebit = { query, amountBaseUnits: next };
+    else this.balances!.commit(query, next);
+    return null;
+  }
+
   private emitDecision(record: GuardDecision) {
     try {
       this.onDecision?.(record);
@@ -224,32 +929,277 @@ export class X402Guard {
     }
   }
 
-  private buildPaymentAudit(): GuardDecision["payment"] {
-    const selected = this.lastSelected
-      ? {
-          scheme: this.lastSelected.scheme,
-          network: this.lastSelected.network,
-          amount: this.lastSelected.amount,
-          asset: this.lastSelected.asset,
-          payTo: this.lastSelected.payTo,
-        }
-      : undefined;
+  private idempotencyFor(
+    request: GuardRequestContext["request"],
+    input: RequestInfo,
+    init: RequestInit | undefined,
+    options: GuardFetchOptions,
+    policy: RoutePolicy,
+  ): GuardRequestContext["idempotency"] {
+    let key = options.idempotencyKey;
+    const derived = key === undefined;
+    if (key === undefined && policy.idempotency?.deriveKey) {
+      // A `Request` body cannot be hashed without consuming it.
+      const unreadable = input instanceof Request && input.body !== null && init?.body === undefined;
+      key = (unreadable ? null : deriveIdempotencyKey(request, init?.body)) ?? undefined;
+    }
+    if (key === undefined) return undefined;
+    return {
+      key,
+      derived,
+      ttlMs: policy.idempotency?.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS,
+      allowRepeat: options.allowRepeatPayment ?? false,
+      paid: false,
+    };
+  }
 
-    const budget = this.budget
+  /** Asks `requestApproval`; returns the error to block with unless the payment was approved. */
+  private async awaitApproval(
+    ctx: GuardRequestContext | undefined,
+    requirement: PaymentRequirements,
+    amount: bigint,
+    approval: ApprovalPolicy,
+    targets: ApplicableBudget[],
+  ): Promise<GuardError | null> {
+    const requestedAt = Date.now();
+    const result = await requestApprovalWithTimeout(
+      this.requestApproval!,
+      {
+        url: ctx?.request.url,
+        method: ctx?.request.method,
+        route: ctx?.routeId,
+        requirement,
+        amountUsdMicros: amount.toString(),
+        thresholdUsd: approval.thresholdUsd,
+        budgets: targets.map(({ id, budget }) => {
+          const { committed, reserved } = budget.snapshot();
+          return {
+            id,
+            windowMs: budget.windowMs,
+            limitBaseUnits: budget.limitBaseUnits.toString(),
+            committedBaseUnits: committed.toString(),
+            reservedBaseUnits: reserved.toString(),
+          };
+        }),
+      },
+      approval.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS,
+    );
+
+    const approver = result.decision === "timeout" ? undefined : result.approver;
+    const reason = result.decision === "deny" ? result.reason : result.decision === "approve" ? result.note : undefined;
+    if (ctx) {
+      ctx.approval = { decision: result.decision, approver, reason, requestedAt, decidedAt: Date.now() };
+    }
+    if (result.decision === "approve") return null;
+
+    return new GuardError(
+      "PAYMENT_BLOCKED_APPROVAL_DENIED",
+      result.decision === "timeout"
+        ? "Blocked by approval policy: no approval decision before the timeout."
+        : `Blocked by approval policy: payment denied${approver ? ` by ${approver}` : ""}.`,
+      {
+        decision: result.decision,
+        approver,
+        reason,
+        thresholdUsd: approval.thresholdUsd,
+        amountUsdMicros: amount.toString(),
+      },
+    );
+  }
+
+  /** Claims the request's idempotency key before signing; returns the error to block with on a duplicate. */
+  private claimIdempotencyKey(ctx: GuardRequestContext): GuardError | null {
+    const idem = ctx.idempotency!;
+    // Overrides skip the claim; the payment is still recorded under the key once signed.
+    if (idem.allowRepeat || idem.claim) return null;
+
+    // Pending only needs to outlast this payment (approval included); `ttlMs` applies once paid.
+    const approval = this.scopeOf(ctx).policy.approval;
+    const lease = IDEMPOTENCY_PENDING_LEASE_MS + (approval ? (approval.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS) : 0);
+    const now = Date.now();
+    const claim: IdempotencyEntry = { key: idem.key, state: "pending", at: now, expiresAt: now + Math.min(idem.ttlMs, lease) };
+    const existing = this.idempotency.claim(claim, now);
+    if (!existing) {
+      idem.claim = claim;
+      return null;
+    }
+    return new GuardError(
+      "PAYMENT_BLOCKED_DUPLICATE",
+      existing.state === "paid"
+        ? "Blocked by idempotency policy: this request was already paid for."
+        : "Blocked by idempotency policy: a payment for this request is already in flight.",
+      {
+        idempotencyKey: idem.key,
+        derived: idem.derived,
+        state: existing.state,
+        firstAt: new Date(existing.at).toISOString(),
+        expiresAt: new Date(existing.expiresAt).toISOString(),
+      },
+    );
+  }
+
+  private eachShadow(ctx: GuardRequestContext | undefined, fn: (evaluator: ShadowEvaluator, s: ShadowRequest) => void) {
+    if (ctx?.observed) fn(this.observed!, ctx.observed);
+    if (ctx?.shadow) fn(this.shadow!, ctx.shadow);
+  }
+
+  /** Fields shared by every decision record emitted from inside `fetch()`. */
+  private auditFields(ctx: GuardRequestContext) {
+    return {
+      at: new Date().toISOString(),
+      request: ctx.request,
+      route: ctx.routeId,
+      payment: this.buildPaymentAudit(ctx),
+      circuit: this.buildCircuitAudit(ctx),
+      attempt: ctx.attempt && { id: ctx.attempt.id, index: ctx.attempt.index },
+      approval: ctx.approval && {
+        decision: ctx.approval.decision,
+        approver: ctx.approval.approver,
+        reason: ctx.approval.reason,
+        requestedAt: new Date(ctx.approval.requestedAt).toISOString(),
+        decidedAt: new Date(ctx.approval.decidedAt).toISOString(),
+      },
+      enforcement: ctx.observed ? ("shadow" as const) : undefined,
+      wouldDeny: ctx.observed && wouldDenyAudit(ctx.observed.wouldDeny),
+      shadow: ctx.shadow && { route: ctx.shadow.routeId, wouldDeny: wouldDenyAudit(ctx.shadow.wouldDeny) },
+      idempotency: ctx.idempotency && {
+        key: ctx.idempotency.key,
+        derived: ctx.idempotency.derived,
+        repeatAllowed: ctx.idempotency.allowRepeat || undefined,
+      },
+    };
+  }
+
+  private circuitKey(ctx: GuardRequestContext): string {
+    return (ctx.request.url && endpointOf(ctx.request.url)) ?? "unknown";
+  }
+
+  private buildCircuitAudit(ctx: GuardRequestContext): DecisionCircuitAudit | undefined {
+    if (!this.scopeOf(ctx).policy.circuitBreaker) return undefined;
+    return circuitAudit(this.breakers.snapshot(this.circuitKey(ctx)));
+  }
+
+  private buildPaymentAudit(ctx: GuardRequestContext): GuardDecision["payment"] {
+    const selected = ctx.selected
       ? {
-          windowMs: this.policy.budget?.windowMs,
-          totalBeforeBaseUnits: this.lastBudgetBefore?.toString(),
-          totalAfterBaseUnits: this.lastBudgetAfter?.toString(),
-          limitBaseUnits: this.policy.budget ? usdToUsdcBaseUnits(this.policy.budget.limitUsd).toString() : undefined,
+          scheme: ctx.selected.scheme,
+          network: ctx.selected.network,
+          amount: ctx.selected.amount,
+          asset: ctx.selected.asset,
+          payTo: ctx.selected.payTo,
         }
       : undefined;
 
+    const budgets = ctx.budgets.map(({ target, before, after }) => ({
+      id: target.id,
+      key: target.key,
+      windowMs: target.budget.windowMs,
+      totalBeforeBaseUnits: sumSnapshot(before),
+      totalAfterBaseUnits: sumSnapshot(after),
+      committedBeforeBaseUnits: before?.committed.toString(),
+      reservedBeforeBaseUnits: before?.reserved.toString(),
+      committedAfterBaseUnits: after?.committed.toString(),
+      reservedAfterBaseUnits: after?.reserved.toString(),
+      limitBaseUnits: target.budget.limitBaseUnits.toString(),
+    }));
+
+    // Legacy single-budget view: the route's own budget (reported even before any check ran).
+    const { budgetKey, policy } = this.scopeOf(ctx);
+    const budget =
+      budgets.find((b) => b.id === budgetKey) ??
+      (budgetKey && policy.budget
+        ? { id: budgetKey, key: budgetKey, windowMs: policy.budget.windowMs, limitBaseUnits: usdToUsdcBaseUnits(policy.budget.limitUsd).toString() }
+        : undefined);
+
+    const wallet = ctx.wallet?.wallet;
     return {
       selected,
-      rejected: this.lastRejected.length > 0 ? this.lastRejected : undefined,
+      rejected: ctx.rejected.length > 0 ? ctx.rejected : undefined,
+      wallet: wallet && { id: wallet.id, address: wallet.address },
+      paidUsdMicros: ctx.paidUsdMicros?.toString(),
+      spent: ctx.spent?.spent,
+      settlement: ctx.spent?.settlement,
       budget,
+      budgets: budgets.length > 0 ? budgets : undefined,
     };
   }
 }
 
+function sumSnapshot(snapshot: BudgetSnapshot | undefined): string | undefined {
+  return snapshot ? (snapshot.committed + snapshot.reserved).toString() : undefined;
+}
+
+/** A budget of `active` other than the default one (route, scoped or wallet budget), if any. */
+function otherBudgetKey(active: ActivePolicy): string | undefined {
+  for (const scope of active.scopes.values()) {
+    if (scope.budgetKey && scope.budgetKey !== DEFAULT_ROUTE_ID) return scope.budgetKey;
+  }
+  const scoped = active.policy.budgets?.[0];
+  if (scoped) return scopedBudgetId(scoped);
+  const wallet = active.policy.wallets?.find((w) => w.budget);
+  return wallet ? `wallet:${wallet.id}` : undefined;
+}
+
+function requestOf(input: RequestInfo, init: RequestInit | undefined): GuardRequestContext["request"] {
+  return {
+    url: typeof input === "string" ? input : input instanceof Request ? input.url : undefined,
+    method: init?.method ?? (input instanceof Request ? input.method : undefined),
+  };
+}
+
+function circuitAudit({ key, state, failures, openedAt }: CircuitSnapshot): DecisionCircuitAudit {
+  return { key, state, failures, openedAt: openedAt !== undefined ? new Date(openedAt).toISOString() : undefined };
+}
+
+function noRouteError(request: GuardRequestContext["request"]): GuardError {
+  return new GuardError("PAYMENT_BLOCKED_NO_ROUTE", "No policy route matches this request (strict routing).", {
+    url: request.url,
+    method: request.method,
+  });
+}
+
+function budgetQuote({ id, key, budget }: ApplicableBudget): QuoteBudget {
+  const { committed, reserved } = budget.snapshot();
+  const remaining = budget.limitBaseUnits - committed - reserved;
+  return {
+    id,
+    key,
+    windowMs: budget.windowMs,
+    limitBaseUnits: budget.limitBaseUnits.toString(),
+    committedBaseUnits: committed.toString(),
+    reservedBaseUnits: reserved.toString(),
+    remainingBaseUnits: (remaining > 0n ? remaining : 0n).toString(),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function wouldDenyAudit(error: GuardError | undefined): DecisionWouldDeny | undefined {
+  return error && { code: error.code, explanation: error.explanation, details: error.details };
+}
 
+/**
+ * Reads the server's verdict on a signed payment: its `PAYMENT-RESPONSE` (v1: `X-PAYMENT-RESPONSE`)
+ * settlement if present and decodable, otherwise the status (402 again = the payment was refused).
+ */
+function spentOf(res: Response): NonNullable<GuardRequestContext["spent"]> {
+  const header = res.headers.get("PAYMENT-RESPONSE") ?? res.headers.get("X-PAYMENT-RESPONSE");
+  if (header) {
+    try {
+      const s = decodePaymentResponseHeader(header);
+      const settlement: DecisionSettlementAudit = {
+        success: s.success === true,
+        transaction: String(s.transaction ?? ""),
+        network: String(s.network ?? ""),
+        payer: s.payer,
+        errorReason: s.errorReason,
+      };
+      return { spent: settlement.success, settlement };
+    } catch {
+      // A malformed header is the server's problem; fall back to the status.
+    }
+  }
+  return { spent: res.status !== 402 };
+}
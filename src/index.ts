@@ -5,15 +5,123 @@
  * - `X402Guard` to wrap x402 fetch flows with explicit policies
  * - `GuardPolicy` / helpers to configure deterministic guardrails
  * - `GuardError` to handle allow/deny outcomes cleanly
+ * - `BudgetStore` implementations to persist spend across restarts/processes
+ * - `IdempotencyStore` implementations so one logical request is never paid twice
+ * - `PriceHistoryStore` implementations for per-endpoint price anomaly detection
+ * - `BalanceProvider` implementations (`ViemBalanceProvider`) for the wallet balance floor
+ * - `FileAuditLog` / `verifyAuditLog` for a tamper-evident decision log
+ * - `SpendReport` / `buildSpendReport` to aggregate decision records (also `pnpm report`)
+ * - `createGuardProxy` to put a guard in front of agents in other languages (also `pnpm proxy`)
  */
-export { X402Guard, type X402GuardConfig } from "./guard.js";
+export { X402Guard, type X402GuardConfig, type GuardFetchOptions, type GuardStatus } from "./guard.js";
+export { type GuardWallet } from "./wallets.js";
+export { ViemBalanceProvider } from "./balance.js";
+export { type GuardProxyOptions, createGuardProxy, proxyStatusOf, GUARD_STATUS_PATH } from "./proxy.js";
+export { type EnforcementMode } from "./shadow.js";
+export { type GuardQuote, type QuoteBudget, type QuoteOption } from "./quote.js";
+export { type RetryOptions, type BackoffPolicy, type RetryAttemptAudit } from "./retry.js";
 export { GuardError, type GuardErrorCode } from "./utils/errors.js";
-export { type GuardDecision } from "./receipt.js";
+export {
+  type GuardDecision,
+  type DecisionApprovalAudit,
+  type DecisionBudgetAudit,
+  type DecisionCircuitAudit,
+  type DecisionPaymentAudit,
+  type DecisionRetryAudit,
+  type DecisionSettlementAudit,
+  type DecisionWouldDeny,
+  type DecisionPolicyChange,
+  type GuardAuditEvent,
+  type PolicyChangedEvent,
+} from "./receipt.js";
+export { type BudgetStore, type SpendEvent, InMemoryBudgetStore, FileBudgetStore } from "./stores/budget.js";
+export {
+  type PriceHistoryStore,
+  type PriceHistory,
+  type PriceObservation,
+  InMemoryPriceHistoryStore,
+  FilePriceHistoryStore,
+} from "./stores/prices.js";
+export {
+  type IdempotencyStore,
+  type IdempotencyEntry,
+  InMemoryIdempotencyStore,
+  FileIdempotencyStore,
+} from "./stores/idempotency.js";
+export {
+  type AuditEntry,
+  type AuditFieldMode,
+  type AuditLogOptions,
+  type AuditVerification,
+  FileAuditLog,
+  GENESIS_HASH,
+  verifyAuditLog,
+} from "./stores/audit.js";
+export {
+  type ReportDimension,
+  type ReportOptions,
+  type ReportReconciliation,
+  type ReportRow,
+  type SpendReportJson,
+  SpendReport,
+  buildSpendReport,
+  formatSpendReport,
+  formatUsdMicros,
+  readDecisionLog,
+  DEFAULT_REPORT_BUCKET_MS,
+} from "./report.js";
+export {
+  type ApprovalPolicy,
+  type ApprovalRequest,
+  type ApprovalResult,
+  DEFAULT_APPROVAL_TIMEOUT_MS,
+} from "./policy/approval.js";
+export { type IdempotencyPolicy, deriveIdempotencyKey } from "./policy/idempotency.js";
+export {
+  type PolicyIssue,
+  POLICY_ENV_VAR,
+  loadPolicyFile,
+  loadPolicyFromEnv,
+  parseDuration,
+  parsePolicy,
+  parseUsd,
+  watchPolicyFile,
+} from "./policy/loader.js";
 export {
   type GuardPolicy,
   type GuardConditions,
   type BudgetWindowPolicy,
+  type ScopedBudgetPolicy,
   parseUsdcAmountBaseUnits,
   usdToUsdcBaseUnits,
   validatePolicy,
 } from "./policy/policy.js";
+export {
+  AssetRegistry,
+  KNOWN_ASSETS,
+  type AssetInfo,
+  type AssetPriceSource,
+  type AssetValuation,
+} from "./policy/assets.js";
+export { type MerchantPolicy, type MerchantRules, type MerchantRejectionReason } from "./policy/merchants.js";
+export {
+  type PolicyRoute,
+  type RouteMatch,
+  type RoutePolicy,
+  DEFAULT_ROUTE_ID,
+  resolveRoute,
+} from "./policy/router.js";
+export { type PredicateOp, type ResponsePredicate, type PredicateFailure } from "./policy/predicates.js";
+export { type JsonSchema, type SchemaViolation } from "./policy/schema.js";
+export { type CircuitBreakerPolicy, type CircuitState } from "./policy/breaker.js";
+export { type RateLimitPolicy } from "./policy/ratelimit.js";
+export { type WalletPolicy, routeWallet } from "./policy/wallets.js";
+export { type BalanceProvider, type BalanceQuery, DEFAULT_BALANCE_CACHE_TTL_MS } from "./policy/balance.js";
+export {
+  type PriceAnomalyPolicy,
+  type PriceReference,
+  DEFAULT_PRICE_HISTORY_SIZE,
+  DEFAULT_PRICE_MIN_SAMPLES,
+  priceReference,
+} from "./policy/prices.js";
+export { type RequirementRejection, type RequirementRejectionReason } from "./policy/requirements.js";
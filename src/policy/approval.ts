@@ -0,0 +1,65 @@
+import type { PaymentRequirements } from "@x402/core/types";
+
+/**
+ * Human-in-the-loop approval for large payments.
+ *
+ * Payments whose USD value is above `thresholdUsd` are not signed until `requestApproval` (set on
+ * `X402GuardConfig`) approves them. A denial, a timeout, or a callback that throws blocks the payment
+ * (`PAYMENT_BLOCKED_APPROVAL_DENIED`). Budget holds are kept while waiting, so concurrent requests
+ * cannot spend the room the pending payment needs.
+ */
+export type ApprovalPolicy = {
+  /** Payments above this USD value need approval. */
+  thresholdUsd: number;
+  /** How long to wait for a decision before treating it as a timeout. Default: 60s. */
+  timeoutMs?: number;
+};
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 60_000;
+
+/** What the approver sees. Amounts are USD micros (1e-6 USD) as decimal strings. */
+export type ApprovalRequest = {
+  url?: string;
+  method?: string;
+  route?: string;
+  requirement: PaymentRequirements;
+  amountUsdMicros: string;
+  thresholdUsd: number;
+  /** State of every budget the payment counts against, with this payment already reserved. */
+  budgets: Array<{
+    id: string;
+    windowMs: number;
+    limitBaseUnits: string;
+    committedBaseUnits: string;
+    reservedBaseUnits: string;
+  }>;
+};
+
+export type ApprovalResult =
+  | { decision: "approve"; approver: string; note?: string }
+  | { decision: "deny"; approver?: string; reason?: string }
+  | { decision: "timeout" };
+
+/**
+ * Calls the approver, turning a slow answer into `timeout` and a thrown error into `deny`
+ * (fail closed).
+ */
+export async function requestApprovalWithTimeout(
+  requestApproval: (request: ApprovalRequest) => Promise<ApprovalResult>,
+  request: ApprovalRequest,
+  timeoutMs: number,
+): Promise<ApprovalResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<ApprovalResult>((resolve) => {
+    timer = setTimeout(() => resolve({ decision: "timeout" }), timeoutMs);
+  });
+  try {
+    const result = await Promise.race([requestApproval(request), timeout]);
+    if (result?.decision === "approve" || result?.decision === "deny" || result?.decision === "timeout") return result;
+    return { decision: "deny", reason: "approver returned an unrecognized result" };
+  } catch (e) {
+    return { decision: "deny", reason: `approver failed: ${String(e)}` };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,115 @@
+import type { Network, PaymentRequirements } from "@x402/core/types";
+import type { GuardPolicy } from "./policy.js";
+import { parseUsdcAmountBaseUnits } from "./policy.js";
+
+/**
+ * Asset registry: how to value a `PaymentRequirements.amount` in USD.
+ *
+ * x402 v2 requirements carry `{ network, asset, amount }` where `amount` is in the asset's base units.
+ * Comparing that raw number against USD caps is only meaningful for 6-decimal, $1 tokens (USDC).
+ * The registry maps `(network, asset)` to decimals and a USD price so every policy works in one unit:
+ *
+ * - **USD micros** (1e-6 USD). For USDC this is numerically identical to base units, so caps,
+ *   budgets and audit fields keep their historical meaning.
+ *
+ * Price sources are synchronous on purpose: x402 client policies run synchronously.
+ * A price oracle should therefore return a cached/last-known value, not fetch on demand.
+ */
+export type AssetPriceSource = number | ((asset: AssetInfo) => number | undefined);
+
+export type AssetInfo = {
+  /** CAIP-2 network id, e.g. `eip155:8453`. */
+  network: Network;
+  /** Token contract address (matched case-insensitively). */
+  asset: string;
+  decimals: number;
+  symbol?: string;
+  /** USD per 1 whole token: a static value or a synchronous oracle callback. */
+  usdPrice: AssetPriceSource;
+};
+
+export type AssetValuation =
+  | { ok: true; usdMicros: bigint; asset?: AssetInfo }
+  | { ok: false; reason: "INVALID_AMOUNT" | "UNKNOWN_ASSET" | "ASSET_PRICE_UNAVAILABLE" };
+
+/** USDC deployments used by x402 facilitators out of the box. */
+export const KNOWN_ASSETS: AssetInfo[] = [
+  { network: "eip155:8453", asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6, symbol: "USDC", usdPrice: 1 },
+  { network: "eip155:84532", asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", decimals: 6, symbol: "USDC", usdPrice: 1 },
+];
+
+// Prices are applied as fixed-point integers with this many decimals.
+const PRICE_SCALE = 10n ** 12n;
+
+export class AssetRegistry {
+  private readonly entries = new Map<string, AssetInfo>();
+  private readonly rejectUnknown: boolean;
+
+  constructor(assets: AssetInfo[], options: { rejectUnknownAssets?: boolean } = {}) {
+    for (const a of assets) this.entries.set(key(a.network, a.asset), a);
+    this.rejectUnknown = options.rejectUnknownAssets ?? true;
+  }
+
+  /** Built-in assets, overridden/extended by `policy.assets`. */
+  static forPolicy(policy: GuardPolicy): AssetRegistry {
+    return new AssetRegistry([...KNOWN_ASSETS, ...(policy.assets ?? [])], {
+      rejectUnknownAssets: policy.rejectUnknownAssets,
+    });
+  }
+
+  lookup(network: string, asset: string): AssetInfo | undefined {
+    return this.entries.get(key(network, asset));
+  }
+
+  /**
+   * Values a requirement in USD micros.
+   *
+   * Rounds *up* by default: a payment is never under-valued against caps/budgets (fail-closed).
+   * A balance that must stay above a floor is valued with `rounding: "down"` for the same reason.
+   * Unknown assets fail unless `rejectUnknownAssets: false`, in which case they fall back to
+   * the legacy USDC assumption (amount = USD micros).
+   */
+  value(req: PaymentRequirements, rounding: "up" | "down" = "up"): AssetValuation {
+    const amount = parseUsdcAmountBaseUnits(req);
+    if (amount === null || amount < 0n) return { ok: false, reason: "INVALID_AMOUNT" };
+
+    const info = this.lookup(req.network, req.asset);
+    if (!info) {
+      if (this.rejectUnknown) return { ok: false, reason: "UNKNOWN_ASSET" };
+      return { ok: true, usdMicros: amount };
+    }
+
+    const price = resolvePrice(info);
+    if (price === undefined) return { ok: false, reason: "ASSET_PRICE_UNAVAILABLE" };
+
+    // The price is rounded the same way; rounding up, a positive price below the scale's precision is never $0.
+    const up = rounding === "up";
+    const priceScaled = BigInt((up ? Math.ceil : Math.floor)(price * Number(PRICE_SCALE)));
+    const numerator = amount * priceScaled * 1_000_000n;
+    const denominator = 10n ** BigInt(info.decimals) * PRICE_SCALE;
+    const usdMicros = (numerator + (up ? denominator - 1n : 0n)) / denominator;
+    return { ok: true, usdMicros, asset: info };
+  }
+
+  /** Convenience: USD micros or null when the requirement cannot be valued. */
+  usdMicros(req: PaymentRequirements, rounding: "up" | "down" = "up"): bigint | null {
+    const v = this.value(req, rounding);
+    return v.ok ? v.usdMicros : null;
+  }
+}
+
+function key(network: string, asset: string): string {
+  return `${network}|${asset.toLowerCase()}`;
+}
+
+function resolvePrice(info: AssetInfo): number | undefined {
+  let price: number | undefined;
+  try {
+    price = typeof info.usdPrice === "function" ? info.usdPrice(info) : info.usdPrice;
+  } catch {
+    // A failing oracle means "no price": fail-closed rather than guessing.
+    return undefined;
+  }
+  if (typeof price !== "number" || !Number.isFinite(price) || price <= 0) return undefined;
+  return price;
+}
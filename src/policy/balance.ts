@@ -0,0 +1,141 @@
+import type { Network } from "@x402/core/types";
+
+import { GuardError } from "../utils/errors.js";
+
+/**
+ * Balance floor: `policy.minRemainingBalanceUsd` blocks a payment that would leave the paying wallet
+ * with less than the floor in the requirement's asset, so an agent cannot drain its hot wallet to zero.
+ *
+ * Balances come from a pluggable `BalanceProvider` (e.g. `ViemBalanceProvider`) and are cached for a
+ * short TTL. Payments the guard reserved or signed since the last read are subtracted from the cached
+ * balance, so many payments inside one TTL (or in flight at once) still add up. A read that fails
+ * blocks the payment.
+ *
+ * The floor is checked before signing; a read taken before an earlier payment settled on chain may
+ * still include it until the next read after that.
+ */
+export interface BalanceProvider {
+  /** Balance of `address` in base units of `asset` on `network`. */
+  getBalance(query: BalanceQuery): Promise<bigint>;
+}
+
+export type BalanceQuery = {
+  /** CAIP-2 network id, e.g. `eip155:8453`. */
+  network: Network;
+  /** Token contract address. */
+  asset: string;
+  /** The paying wallet. */
+  address: string;
+};
+
+export const DEFAULT_BALANCE_CACHE_TTL_MS = 5_000;
+
+/**
+ * Short-lived cache over a `BalanceProvider`. Concurrent reads of one balance share a single request.
+ *
+ * `tryDebit` checks the floor and takes a debit in one synchronous step, so concurrent payments
+ * always see each other's debits. A debit is pending until `commit` (signed) or `release` (never
+ * signed). Pending debits outlive a re-read: the chain cannot include a payment that was not signed yet.
+ */
+export class BalanceCache {
+  private readonly provider: BalanceProvider;
+  private readonly ttlMs: number;
+  /** `debited`: signed since the balance was read. */
+  private readonly entries = new Map<string, { balance: bigint; readAt: number; debited: bigint }>();
+  private readonly pending = new Map<string, bigint>();
+  private readonly reads = new Map<string, Promise<bigint>>();
+
+  constructor(provider: BalanceProvider, ttlMs = DEFAULT_BALANCE_CACHE_TTL_MS) {
+    this.provider = provider;
+    this.ttlMs = ttlMs;
+  }
+
+  /** Balance minus signed and pending debits (base units; may be negative). Reads it if stale. */
+  async available(query: BalanceQuery, now = Date.now()): Promise<bigint> {
+    const key = balanceKey(query);
+    const entry = this.entries.get(key);
+    if (!entry || now - entry.readAt >= this.ttlMs) {
+      let read = this.reads.get(key);
+      if (!read) {
+        read = this.provider.getBalance(query).then(
+          (balance) => {
+            this.entries.set(key, { balance, readAt: now, debited: 0n });
+            this.reads.delete(key);
+            return balance;
+          },
+          (e) => {
+            this.reads.delete(key);
+            throw e;
+          },
+        );
+        this.reads.set(key, read);
+      }
+      await read;
+    }
+    return this.current(key);
+  }
+
+  /**
+   * Debits `amountBaseUnits` if `allows(available - amountBaseUnits)`; otherwise returns what was
+   * available. Call it right after `available()` resolves, with no `await` in between.
+   */
+  tryDebit(
+    query: BalanceQuery,
+    amountBaseUnits: bigint,
+    allows: (remainingBaseUnits: bigint) => boolean,
+  ): { ok: true } | { ok: false; availableBaseUnits: bigint } {
+    const key = balanceKey(query);
+    const available = this.current(key);
+    if (!allows(available - amountBaseUnits)) return { ok: false, availableBaseUnits: available };
+    this.pending.set(key, (this.pending.get(key) ?? 0n) + amountBaseUnits);
+    return { ok: true };
+  }
+
+  /** The payment was signed: its debit stays on the balance until the next read. */
+  commit(query: BalanceQuery, amountBaseUnits: bigint): void {
+    const key = balanceKey(query);
+    this.release(query, amountBaseUnits);
+    const entry = this.entries.get(key);
+    if (entry) entry.debited += amountBaseUnits;
+  }
+
+  /** Gives back a pending debit whose payment was never signed. */
+  release(query: BalanceQuery, amountBaseUnits: bigint): void {
+    const key = balanceKey(query);
+    const left = (this.pending.get(key) ?? 0n) - amountBaseUnits;
+    if (left > 0n) this.pending.set(key, left);
+    else this.pending.delete(key);
+  }
+
+  private current(key: string): bigint {
+    const entry = this.entries.get(key);
+    // Never read (or only failed reads): nothing to spend.
+    const balance = entry ? entry.balance - entry.debited : 0n;
+    return balance - (this.pending.get(key) ?? 0n);
+  }
+}
+
+/** The denial when a payment would go below `minRemainingBalanceUsd` (or the balance cannot be checked). */
+export function balanceFloorError(
+  query: BalanceQuery,
+  floorUsd: number,
+  detail: { availableBaseUnits?: bigint; nextBaseUnits: bigint; remainingUsdMicros?: bigint | null; error?: string },
+): GuardError {
+  const explanation = detail.error
+    ? "Blocked by balance policy: the wallet balance could not be read."
+    : "Blocked by balance policy: payment would leave the wallet below minRemainingBalanceUsd.";
+  return new GuardError("PAYMENT_BLOCKED_BALANCE_FLOOR", explanation, {
+    network: query.network,
+    asset: query.asset,
+    address: query.address,
+    minRemainingBalanceUsd: floorUsd,
+    availableBaseUnits: detail.availableBaseUnits?.toString(),
+    nextBaseUnits: detail.nextBaseUnits.toString(),
+    remainingUsdMicros: detail.remainingUsdMicros?.toString(),
+    error: detail.error,
+  });
+}
+
+function balanceKey({ network, asset, address }: BalanceQuery): string {
+  return `${network}|${asset.toLowerCase()}|${address.toLowerCase()}`;
+}
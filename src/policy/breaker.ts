@@ -0,0 +1,121 @@
+import { GuardError } from "../utils/errors.js";
+
+/**
+ * Circuit breaker per endpoint (origin + path), driven by response condition failures.
+ *
+ * Response conditions cannot stop the payment that produced a junk response, but they tell us the
+ * endpoint is misbehaving. Without a breaker the next `fetch()` pays again; retry-drain is then only
+ * bounded by the budget. The breaker stops signing for an endpoint after repeated failures:
+ *
+ * - **closed**: payments allowed; consecutive failures are counted, a success resets the count.
+ * - **open**: reached `failureThreshold`; no payment is signed until `cooldownMs` has passed.
+ * - **half-open**: after the cooldown, one trial payment is allowed. Success closes the breaker,
+ *   failure re-opens it for another cooldown.
+ *
+ * State is in-memory (per guard instance).
+ */
+export type CircuitBreakerPolicy = {
+  /** Consecutive condition failures that open the breaker. */
+  failureThreshold: number;
+  /** How long the breaker stays open before allowing one trial payment. */
+  cooldownMs: number;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitSnapshot = {
+  key: string;
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+};
+
+export type CircuitCheck =
+  | { ok: true; snapshot: CircuitSnapshot; trial: boolean }
+  | { ok: false; snapshot: CircuitSnapshot; retryAfterMs: number };
+
+type Circuit = {
+  state: CircuitState;
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+};
+
+/** The denial for a failed `check`. */
+export function circuitOpenError(key: string, check: Extract<CircuitCheck, { ok: false }>): GuardError {
+  return new GuardError("PAYMENT_BLOCKED_CIRCUIT_OPEN", "Circuit breaker is open for this endpoint after repeated response failures.", {
+    endpoint: key,
+    state: check.snapshot.state,
+    failures: check.snapshot.failures,
+    retryAfterMs: check.retryAfterMs,
+  });
+}
+
+export class CircuitBreakers {
+  private readonly circuits = new Map<string, Circuit>();
+
+  /**
+   * Called before signing. In half-open state only one caller gets the trial (`trial: true`);
+   * it must later call `recordSuccess`, `recordFailure` or `releaseTrial`.
+   */
+  check(key: string, policy: CircuitBreakerPolicy, now = Date.now()): CircuitCheck {
+    const c = this.get(key);
+
+    if (c.state === "open") {
+      const retryAt = (c.openedAt ?? now) + policy.cooldownMs;
+      if (now < retryAt) return { ok: false, snapshot: this.snapshot(key), retryAfterMs: retryAt - now };
+      c.state = "half-open";
+    }
+
+    if (c.state === "half-open") {
+      if (c.trialInFlight) return { ok: false, snapshot: this.snapshot(key), retryAfterMs: 0 };
+      c.trialInFlight = true;
+      return { ok: true, snapshot: this.snapshot(key), trial: true };
+    }
+
+    return { ok: true, snapshot: this.snapshot(key), trial: false };
+  }
+
+  recordSuccess(key: string): void {
+    const c = this.get(key);
+    c.state = "closed";
+    c.failures = 0;
+    c.openedAt = undefined;
+    c.trialInFlight = false;
+  }
+
+  recordFailure(key: string, policy: CircuitBreakerPolicy, now = Date.now()): void {
+    const c = this.get(key);
+    c.failures += 1;
+    if (c.state === "half-open" || c.failures >= policy.failureThreshold) {
+      c.state = "open";
+      c.openedAt = now;
+    }
+    c.trialInFlight = false;
+  }
+
+  /** The trial ended without a verdict (e.g. blocked by another policy); let the next caller try. */
+  releaseTrial(key: string): void {
+    const c = this.circuits.get(key);
+    if (c) c.trialInFlight = false;
+  }
+
+  /** Every endpoint seen so far. */
+  snapshots(): CircuitSnapshot[] {
+    return [...this.circuits.keys()].map((key) => this.snapshot(key));
+  }
+
+  snapshot(key: string): CircuitSnapshot {
+    const c = this.get(key);
+    return { key, state: c.state, failures: c.failures, openedAt: c.openedAt };
+  }
+
+  private get(key: string): Circuit {
+    let c = this.circuits.get(key);
+    if (!c) {
+      c = { state: "closed", failures: 0, trialInFlight: false };
+      this.circuits.set(key, c);
+    }
+    return c;
+  }
+}
@@ -1,8 +1,32 @@
-export type SpendEvent = {
-  ts: number;
+import { randomUUID } from "node:crypto";
+
+import { InMemoryBudgetStore, type BudgetStore } from "../stores/budget.js";
+import { GuardError } from "../utils/errors.js";
+import { endpointOf, originOf } from "../utils/url.js";
+import type { BudgetWindowPolicy, ScopedBudgetPolicy } from "./policy.js";
+import { usdToUsdcBaseUnits } from "./policy.js";
+
+export type { SpendEvent } from "../stores/budget.js";
+
+/**
+ * A hold on budget capacity taken before signing a payment.
+ * It either becomes spend (`commit`) or is returned (`release`).
+ */
+export type BudgetReservation = {
+  id: number;
   amountBaseUnits: bigint;
 };
 
+/** Point-in-time view of a budget: settled spend vs. in-flight holds. */
+export type BudgetSnapshot = {
+  committed: bigint;
+  reserved: bigint;
+};
+
+export type ReserveResult =
+  | ({ ok: true; reservation: BudgetReservation } & BudgetSnapshot)
+  | ({ ok: false; total: bigint } & BudgetSnapshot);
+
 /**
  * RollingBudget tracks spend events and enforces a rolling-window budget cap.
  *
@@ -10,40 +34,234 @@ export type SpendEvent = {
  * - It is harder to “game” at window boundaries.
  * - It matches how agents actually fail: they retry continuously during incidents.
  *
- * This is intentionally simple (in-memory, single-process) for hackathon/demo purposes.
- * Production deployments would persist/replicate spend state and include idempotency keys.
+ * Spend events live in a pluggable `BudgetStore`:
+ * - default: in-memory (single-process, reset on restart)
+ * - `FileBudgetStore`: survives restarts and can be shared by processes on one host
+ *
+ * Reserve/commit/release:
+ * - `reserve` checks the limit against committed + reserved spend and takes a hold in one
+ *   synchronous step, so concurrent requests cannot all pass the check before any records.
+ * - Holds are written to the store as spend events (under `store.exclusive`), so processes sharing
+ *   a store see each other's holds; in this process's snapshots they count as committed.
+ *
+ * Budgets bound how much is spent, not what for; `policy.idempotency` keys stop the same logical
+ * request from being paid twice.
  */
 export class RollingBudget {
-  private readonly windowMs: number;
-  private readonly limitBaseUnits: bigint;
-  private events: SpendEvent[] = [];
+  private window: number;
+  /** Largest window configured so far: events are kept this long, so growing the window again still counts them. */
+  private horizon: number;
+  private limit: bigint;
+  private readonly store: BudgetStore;
+  private readonly holds = new Map<number, { reservation: BudgetReservation; ts: number }>();
+  private nextHoldId = 1;
+  /** Prefix of this instance's hold ids in the store, unique across processes. */
+  private readonly holdPrefix = randomUUID();
+
+  constructor(windowMs: number, limitBaseUnits: bigint, store: BudgetStore = new InMemoryBudgetStore()) {
+    this.window = windowMs;
+    this.horizon = windowMs;
+    this.limit = limitBaseUnits;
+    this.store = store;
+  }
+
+  get windowMs(): number {
+    return this.window;
+  }
+
+  get limitBaseUnits(): bigint {
+    return this.limit;
+  }
 
-  constructor(windowMs: number, limitBaseUnits: bigint) {
-    this.windowMs = windowMs;
-    this.limitBaseUnits = limitBaseUnits;
+  /**
+   * Applies a new window / limit (policy update). Spend events and in-flight holds are kept: a shorter
+   * window simply counts fewer of them, and events are only pruned past the largest window configured
+   * so far, so growing the window back counts them again. A window larger than any before counts what
+   * the previous largest window kept.
+   */
+  reconfigure(windowMs: number, limitBaseUnits: bigint): void {
+    this.window = windowMs;
+    this.horizon = Math.max(this.horizon, windowMs);
+    this.limit = limitBaseUnits;
   }
 
+  /** Committed spend inside the window (excludes this process's in-flight holds). */
   getTotal(now = Date.now()): bigint {
-    this.prune(now);
-    return this.events.reduce((acc, e) => acc + e.amountBaseUnits, 0n);
+    const cutoff = now - this.windowMs;
+    this.store.prune(now - this.horizon);
+    let own = 0n;
+    for (const hold of this.holds.values()) if (hold.ts >= cutoff) own += hold.reservation.amountBaseUnits;
+    return this.store.total(cutoff) - own;
+  }
+
+  getReserved(): bigint {
+    let reserved = 0n;
+    for (const hold of this.holds.values()) reserved += hold.reservation.amountBaseUnits;
+    return reserved;
+  }
+
+  snapshot(now = Date.now()): BudgetSnapshot {
+    return { committed: this.getTotal(now), reserved: this.getReserved() };
   }
 
   canSpend(amountBaseUnits: bigint, now = Date.now()): { ok: true } | { ok: false; total: bigint } {
-    const total = this.getTotal(now);
+    const total = this.getTotal(now) + this.getReserved();
     if (total + amountBaseUnits > this.limitBaseUnits) return { ok: false, total };
     return { ok: true };
   }
 
+  reserve(amountBaseUnits: bigint, now = Date.now()): ReserveResult {
+    return this.store.exclusive(() => {
+      const before = this.snapshot(now);
+      const total = before.committed + before.reserved;
+      if (total + amountBaseUnits > this.limitBaseUnits) return { ok: false, total, ...before };
+
+      const reservation = { id: this.nextHoldId++, amountBaseUnits };
+      this.holds.set(reservation.id, { reservation, ts: now });
+      this.store.append({ ts: now, amountBaseUnits, holdId: this.holdIdOf(reservation) });
+      return { ok: true, reservation, ...before };
+    });
+  }
+
+  /** Turns a hold into recorded spend. Returns false if the hold was already committed/released. */
+  commit(reservation: BudgetReservation, now = Date.now()): boolean {
+    if (!this.holds.delete(reservation.id)) return false;
+    this.store.exclusive(() => {
+      this.store.remove(this.holdIdOf(reservation));
+      this.record(reservation.amountBaseUnits, now);
+    });
+    return true;
+  }
+
+  /** Returns a hold's capacity to the budget. Safe to call more than once. */
+  release(reservation: BudgetReservation): boolean {
+    if (!this.holds.delete(reservation.id)) return false;
+    this.store.remove(this.holdIdOf(reservation));
+    return true;
+  }
+
   record(amountBaseUnits: bigint, now = Date.now()): void {
-    this.prune(now);
-    this.events.push({ ts: now, amountBaseUnits });
+    this.store.prune(now - this.horizon);
+    this.store.append({ ts: now, amountBaseUnits });
   }
 
-  private prune(now: number) {
-    const cutoff = now - this.windowMs;
-    // Keep it simple; demo-scale.
-    this.events = this.events.filter((e) => e.ts >= cutoff);
+  private holdIdOf(reservation: BudgetReservation): string {
+    return `${this.holdPrefix}:${reservation.id}`;
   }
 }
 
+/** A budget instance that applies to one request, labelled for audit records and errors. */
+export type ApplicableBudget = {
+  /** Policy-level id: `"default"`, `"route:<id>"` or a `budgets[].id`. */
+  id: string;
+  /** Concrete instance key, e.g. `origin:per-origin:https://api.example.com`. */
+  key: string;
+  budget: RollingBudget;
+};
 
+export type BudgetHold = {
+  target: ApplicableBudget;
+  reservation: BudgetReservation;
+};
+
+export type ReserveAllResult =
+  | { ok: true; holds: BudgetHold[] }
+  | ({ ok: false; blockedBy: ApplicableBudget; total: bigint; remaining: bigint } & BudgetSnapshot);
+
+/**
+ * Reserves `amount` on every applicable budget, or on none.
+ *
+ * Budgets are checked in order; on the first one without room, holds already taken are released.
+ * Everything is synchronous, so no other request can interleave between the checks.
+ */
+export function reserveAll(targets: ApplicableBudget[], amountBaseUnits: bigint, now = Date.now()): ReserveAllResult {
+  const holds: BudgetHold[] = [];
+  for (const target of targets) {
+    const r = target.budget.reserve(amountBaseUnits, now);
+    if (!r.ok) {
+      for (const h of holds) h.target.budget.release(h.reservation);
+      return blocked(target, r.total, { committed: r.committed, reserved: r.reserved });
+    }
+    holds.push({ target, reservation: r.reservation });
+  }
+  return { ok: true, holds };
+}
+
+/** The denial for a failed `reserveAll` / `checkAll`, naming the budget that blocked and its remaining room. */
+export function budgetWindowError(check: Extract<ReserveAllResult, { ok: false }>, amountBaseUnits: bigint): GuardError {
+  return new GuardError(
+    "PAYMENT_BLOCKED_BUDGET_WINDOW",
+    `Blocked by budget window policy (${check.blockedBy.id}): total=${check.total.toString()} (committed=${check.committed.toString()} reserved=${check.reserved.toString()}) + next=${amountBaseUnits.toString()} exceeds limit.`,
+    {
+      budget: check.blockedBy.id,
+      budgetKey: check.blockedBy.key,
+      windowMs: check.blockedBy.budget.windowMs,
+      limitBaseUnits: check.blockedBy.budget.limitBaseUnits.toString(),
+      totalBaseUnits: check.total.toString(),
+      committedBaseUnits: check.committed.toString(),
+      reservedBaseUnits: check.reserved.toString(),
+      remainingBaseUnits: check.remaining.toString(),
+      nextBaseUnits: amountBaseUnits.toString(),
+    },
+  );
+}
+
+/** Like `reserveAll`, but only checks (no holds are taken). */
+export function checkAll(targets: ApplicableBudget[], amountBaseUnits: bigint, now = Date.now()): ReserveAllResult {
+  for (const target of targets) {
+    const r = target.budget.canSpend(amountBaseUnits, now);
+    if (!r.ok) return blocked(target, r.total, target.budget.snapshot(now));
+  }
+  return { ok: true, holds: [] };
+}
+
+function blocked(target: ApplicableBudget, total: bigint, snapshot: BudgetSnapshot): ReserveAllResult {
+  const remaining = target.budget.limitBaseUnits - total;
+  return { ok: false, blockedBy: target, total, ...snapshot, remaining: remaining > 0n ? remaining : 0n };
+}
+
+/**
+ * Lazily creates one `RollingBudget` per key (e.g. one per origin for an origin-scoped budget).
+ * `storeFor` decides where each budget's spend events live.
+ */
+export class BudgetLedger {
+  private readonly budgets = new Map<string, RollingBudget>();
+  private readonly storeFor: (key: string) => BudgetStore | undefined;
+
+  constructor(storeFor: (key: string) => BudgetStore | undefined = () => undefined) {
+    this.storeFor = storeFor;
+  }
+
+  /** The budget for `key`, created on first use; an existing one is updated to `policy`'s window/limit. */
+  get(key: string, policy: BudgetWindowPolicy): RollingBudget {
+    const limit = usdToUsdcBaseUnits(policy.limitUsd);
+    let budget = this.budgets.get(key);
+    if (!budget) {
+      budget = new RollingBudget(policy.windowMs, limit, this.storeFor(key));
+      this.budgets.set(key, budget);
+    } else if (budget.windowMs !== policy.windowMs || budget.limitBaseUnits !== limit) {
+      budget.reconfigure(policy.windowMs, limit);
+    }
+    return budget;
+  }
+
+  /** Every budget instance created so far, by key. */
+  entries(): Array<[key: string, budget: RollingBudget]> {
+    return [...this.budgets];
+  }
+}
+
+/**
+ * Instance key of a scoped budget for a request URL.
+ * Requests without a parseable URL share one `unknown` bucket (fail-closed: they are still limited).
+ */
+export function scopedBudgetKey(budget: ScopedBudgetPolicy, url: string | undefined): string {
+  const id = scopedBudgetId(budget);
+  if (budget.scope === "global") return `global:${id}`;
+  const bucket = (url && (budget.scope === "origin" ? originOf(url) : endpointOf(url))) ?? "unknown";
+  return `${budget.scope}:${id}:${bucket}`;
+}
+
+export function scopedBudgetId(budget: ScopedBudgetPolicy): string {
+  return budget.id ?? budget.scope;
+}
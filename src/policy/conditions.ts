@@ -1,5 +1,7 @@
 import { GuardError } from "../utils/errors.js";
 import type { GuardConditions } from "./policy.js";
+import { evaluatePredicates } from "./predicates.js";
+import { compileSchema } from "./schema.js";
 
 /**
  * Response conditions are evaluated AFTER a response is received.
@@ -35,7 +37,9 @@ export async function enforceResponseConditions(
     });
   }
 
-  if (conditions.requiredJsonFields && conditions.requiredJsonFields.length > 0) {
+  const wantsFields = conditions.requiredJsonFields !== undefined && conditions.requiredJsonFields.length > 0;
+  const wantsPredicates = conditions.predicates !== undefined && conditions.predicates.length > 0;
+  if (wantsFields || wantsPredicates || conditions.responseSchema !== undefined) {
     let body: unknown;
     try {
       // Clone so we don't consume the caller's response body.
@@ -47,7 +51,7 @@ export async function enforceResponseConditions(
       });
     }
 
-    const missing = conditions.requiredJsonFields.filter((f) => {
+    const missing = (conditions.requiredJsonFields ?? []).filter((f) => {
       const v = (body as any)?.[f];
       return v === undefined || v === null;
     });
@@ -58,6 +62,29 @@ export async function enforceResponseConditions(
         missing,
       });
     }
+
+    if (conditions.responseSchema !== undefined) {
+      // Already compiled (and cached) by validatePolicy; this is a lookup.
+      const violations = compileSchema(conditions.responseSchema).validate(body);
+      if (violations.length > 0) {
+        throw new GuardError("RESPONSE_CONDITION_FAILED", "Response does not match the response schema.", {
+          status: res.status,
+          latencyMs,
+          violations,
+        });
+      }
+    }
+
+    if (wantsPredicates) {
+      const failed = evaluatePredicates(body, conditions.predicates!);
+      if (failed.length > 0) {
+        throw new GuardError(
+          "RESPONSE_CONDITION_FAILED",
+          `Response failed predicate conditions: ${failed.map((f) => f.expression).join("; ")}.`,
+          { status: res.status, latencyMs, failed },
+        );
+      }
+    }
   }
 }
 
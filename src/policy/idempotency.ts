@@ -0,0 +1,51 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Idempotency: one logical request is paid for at most once within `ttlMs`.
+ *
+ * Budgets bound *how much* an agent spends, not *what for*: an agent that re-issues a request after
+ * a timeout pays again, and both payments fit the budget. With a key per logical request the guard
+ * remembers that a payment was already signed and blocks the second signature
+ * (`PAYMENT_BLOCKED_DUPLICATE`) unless the caller explicitly allows a repeat payment.
+ *
+ * Keys come from the caller (`guard.fetch(url, init, { idempotencyKey })`) or, with `deriveKey`,
+ * from a hash of method + URL + body. Bodies that cannot be read without consuming them
+ * (streams, `FormData`, `Blob`) get no derived key; pass an explicit one for those.
+ */
+export type IdempotencyPolicy = {
+  /** How long a paid key blocks repeat payments. */
+  ttlMs: number;
+  /** Derive a key from method + URL + body when the caller passes none. Default: false. */
+  deriveKey?: boolean;
+};
+
+/** TTL for caller-supplied keys when the policy does not configure `idempotency`. */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lease of a pending claim (claimed, not signed yet), on top of any approval wait. Only a paid key
+ * blocks for the full `ttlMs`; a process that dies mid-payment frees its keys after the lease.
+ */
+export const IDEMPOTENCY_PENDING_LEASE_MS = 5 * 60 * 1000;
+
+export function deriveIdempotencyKey(
+  request: { url?: string; method?: string },
+  body: BodyInit | null | undefined,
+): string | null {
+  if (!request.url) return null;
+
+  const hash = createHash("sha256");
+  hash.update(`${(request.method ?? "GET").toUpperCase()} ${request.url}\n`);
+  if (typeof body === "string") {
+    hash.update(body);
+  } else if (body instanceof URLSearchParams) {
+    hash.update(body.toString());
+  } else if (body instanceof ArrayBuffer) {
+    hash.update(new Uint8Array(body));
+  } else if (ArrayBuffer.isView(body)) {
+    hash.update(new Uint8Array(body.buffer, body.byteOffset, body.byteLength));
+  } else if (body !== undefined && body !== null) {
+    return null;
+  }
+  return `derived:${hash.digest("hex")}`;
+}
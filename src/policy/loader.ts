@@ -0,0 +1,320 @@
+import { readFileSync, unwatchFile, watchFile, type Stats } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+import { GuardError } from "../utils/errors.js";
+import { validatePolicy, type GuardPolicy } from "./policy.js";
+
+/**
+ * Declarative policies: load a `GuardPolicy` from a JSON/YAML file or an environment variable.
+ *
+ * Input is checked against the policy's shape before `validatePolicy` checks ranges:
+ * - unknown keys are rejected (a typo such as `maxPerPaymentUSD` must not silently disable a cap)
+ * - every value is type-checked; errors name the exact path, e.g. `routes[0].policy.budget.windowMs`
+ * - durations (`*Ms` fields) accept milliseconds or strings like `"500ms"`, `"30s"`, `"1h30m"`, `"1d"`
+ * - USD amounts (`*Usd` fields, `assets[].usdPrice`) accept numbers or strings like `"$0.10"`
+ *
+ * Callbacks (`assets[].usdPrice` oracles) cannot be expressed in a file; use a static price there.
+ */
+export type PolicyIssue = { path: string; message: string };
+
+/** Environment variable read by `loadPolicyFromEnv` (inline JSON/YAML); `<name>_FILE` names a file instead. */
+export const POLICY_ENV_VAR = "X402_GUARD_POLICY";
+
+type Spec =
+  | { kind: "boolean" | "string" | "json" | "duration" | "usd" }
+  | { kind: "number"; integer?: boolean }
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "array"; items: Spec }
+  | { kind: "record"; values: Spec }
+  | { kind: "object"; fields: Record<string, Spec>; required?: readonly string[] }
+  | { kind: "stringOrArray" };
+
+const boolean: Spec = { kind: "boolean" };
+const string: Spec = { kind: "string" };
+const json: Spec = { kind: "json" };
+const duration: Spec = { kind: "duration" };
+const usd: Spec = { kind: "usd" };
+const strings: Spec = { kind: "array", items: string };
+
+const budgetWindow = { limitUsd: usd, windowMs: duration };
+
+const merchantRules = {
+  allowedPayTo: strings,
+  deniedPayTo: strings,
+  allowedNetworks: strings,
+  allowedSchemes: strings,
+  allowedAssets: strings,
+};
+
+const policyFields: Record<string, Spec> = {
+  maxPerPaymentUsd: usd,
+  minRemainingBalanceUsd: usd,
+  selectCheapest: boolean,
+  priceAnomaly: {
+    kind: "object",
+    fields: {
+      maxMultiple: { kind: "number" },
+      pinFirstPrice: boolean,
+      historySize: { kind: "number", integer: true },
+      minSamples: { kind: "number", integer: true },
+    },
+  },
+  budget: { kind: "object", fields: budgetWindow, required: ["limitUsd", "windowMs"] },
+  budgets: {
+    kind: "array",
+    items: {
+      kind: "object",
+      fields: { ...budgetWindow, scope: { kind: "enum", values: ["global", "origin", "endpoint"] }, id: string },
+      required: ["scope", "limitUsd", "windowMs"],
+    },
+  },
+  rateLimits: {
+    kind: "array",
+    items: {
+      kind: "object",
+      fields: {
+        scope: { kind: "enum", values: ["global", "origin"] },
+        maxPayments: { kind: "number", integer: true },
+        windowMs: duration,
+        id: string,
+      },
+      required: ["scope", "maxPayments", "windowMs"],
+    },
+  },
+  wallets: {
+    kind: "array",
+    items: {
+      kind: "object",
+      fields: {
+        id: string,
+        networks: strings,
+        maxPerPaymentUsd: usd,
+        budget: { kind: "object", fields: budgetWindow, required: ["limitUsd", "windowMs"] },
+      },
+      required: ["id"],
+    },
+  },
+  conditions: {
+    kind: "object",
+    fields: {
+      requireHttp2xx: boolean,
+      maxLatencyMs: duration,
+      requiredJsonFields: strings,
+      // Checked (and compiled) by `validatePolicy`.
+      responseSchema: json,
+      predicates: { kind: "array", items: json },
+    },
+  },
+  approval: { kind: "object", fields: { thresholdUsd: usd, timeoutMs: duration }, required: ["thresholdUsd"] },
+  idempotency: { kind: "object", fields: { ttlMs: duration, deriveKey: boolean }, required: ["ttlMs"] },
+  circuitBreaker: {
+    kind: "object",
+    fields: { failureThreshold: { kind: "number", integer: true }, cooldownMs: duration },
+    required: ["failureThreshold", "cooldownMs"],
+  },
+  assets: {
+    kind: "array",
+    items: {
+      kind: "object",
+      fields: {
+        network: string,
+        asset: string,
+        decimals: { kind: "number", integer: true },
+        symbol: string,
+        usdPrice: usd,
+      },
+      required: ["network", "asset", "decimals", "usdPrice"],
+    },
+  },
+  rejectUnknownAssets: boolean,
+  merchants: {
+    kind: "object",
+    fields: { ...merchantRules, byOrigin: { kind: "record", values: { kind: "object", fields: merchantRules } } },
+  },
+  strictRouting: boolean,
+};
+
+policyFields.routes = {
+  kind: "array",
+  items: {
+    kind: "object",
+    fields: {
+      id: string,
+      match: { kind: "object", fields: { origin: string, path: string, method: { kind: "stringOrArray" } } },
+      // Same fields as the top level; `validatePolicy` explains which ones a route may not set.
+      policy: { kind: "object", fields: policyFields },
+    },
+    required: ["id", "match", "policy"],
+  },
+};
+
+const POLICY_SPEC: Spec = { kind: "object", fields: policyFields };
+
+/**
+ * Checks and normalizes an already-parsed policy document (e.g. from `JSON.parse`).
+ * Throws `POLICY_INVALID` listing every problem found (`details.errors`).
+ */
+export function parsePolicy(input: unknown, source = "policy"): GuardPolicy {
+  const issues: PolicyIssue[] = [];
+  const policy = convert(POLICY_SPEC, input, "", issues) as GuardPolicy;
+  if (issues.length === 0) {
+    try {
+      validatePolicy(policy);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      // `validatePolicy` reports `policy.<path> <problem>`; re-key it like the shape errors.
+      const m = /^policy\.(\S+?):? (.*)$/.exec(message);
+      issues.push(m ? { path: m[1]!, message: m[2]! } : { path: "", message });
+    }
+  }
+  if (issues.length > 0) throw invalid(source, issues);
+  return policy;
+}
+
+/** Loads a policy from a `.json`, `.yaml` or `.yml` file. */
+export function loadPolicyFile(path: string): GuardPolicy {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (e) {
+    throw invalid(path, [{ path: "", message: `cannot read file: ${String(e)}` }]);
+  }
+  const ext = extname(path).toLowerCase();
+  if (ext !== ".json" && ext !== ".yaml" && ext !== ".yml") {
+    throw invalid(path, [{ path: "", message: `unsupported file extension "${ext}" (use .json, .yaml or .yml)` }]);
+  }
+  return parsePolicy(parseText(text, ext === ".json" ? "json" : "yaml", path), path);
+}
+
+/**
+ * Loads a policy from `env[name]` (inline JSON or YAML) or, if that is unset, from the file named by
+ * `env[name + "_FILE"]`. Throws `POLICY_INVALID` if neither is set.
+ */
+export function loadPolicyFromEnv(env: NodeJS.ProcessEnv = process.env, name = POLICY_ENV_VAR): GuardPolicy {
+  const inline = env[name];
+  if (inline !== undefined && inline.trim() !== "") {
+    return parsePolicy(parseText(inline, "yaml", `$${name}`), `$${name}`);
+  }
+  const file = env[`${name}_FILE`];
+  if (file !== undefined && file.trim() !== "") return loadPolicyFile(file);
+  throw invalid(`$${name}`, [{ path: "", message: `neither ${name} nor ${name}_FILE is set` }]);
+}
+
+/**
+ * Reloads a policy file whenever it changes and hands the new policy to `onPolicy`, typically
+ * `(p) => guard.updatePolicy(p, { source: path })`. The file is polled (`intervalMs`, default 1s), which
+ * also catches editors and deploy tools that replace it by rename.
+ *
+ * A file that fails to load or a policy `onPolicy` rejects is reported to `onError` and otherwise
+ * ignored: the previous policy stays in force. Returns a function that stops watching.
+ */
+export function watchPolicyFile(
+  path: string,
+  onPolicy: (policy: GuardPolicy) => void,
+  options: { intervalMs?: number; onError?: (error: unknown) => void } = {},
+): () => void {
+  const listener = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size && curr.ino === prev.ino) return;
+    try {
+      onPolicy(loadPolicyFile(path));
+    } catch (e) {
+      options.onError?.(e);
+    }
+  };
+  watchFile(path, { interval: options.intervalMs ?? 1_000, persistent: false }, listener);
+  return () => unwatchFile(path, listener);
+}
+
+/** `"1h30m"` → 5_400_000. Numbers are milliseconds. Returns null for anything else. */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (!/^(\d+(\.\d+)?(ms|s|m|h|d))+$/.test(text)) return null;
+  let ms = 0;
+  for (const [, n, unit] of text.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h|d)/g)) ms += Number(n) * DURATION_UNITS[unit!]!;
+  return ms;
+}
+
+/** `"$0.10"` / `"0.10"` → 0.1. Numbers are USD. Returns null for anything else. */
+export function parseUsd(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== "string") return null;
+  const m = /^\$?(\d+(\.\d+)?)$/.exec(value.trim());
+  return m ? Number(m[1]) : null;
+}
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+function parseText(text: string, format: "json" | "yaml", source: string): unknown {
+  try {
+    // YAML is a superset of JSON, but JSON files get the stricter parser and its error messages.
+    return format === "json" ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    const message = `cannot parse ${format.toUpperCase()}: ${e instanceof Error ? e.message : String(e)}`;
+    throw invalid(source, [{ path: "", message }]);
+  }
+}
+
+function convert(spec: Spec, value: unknown, path: string, issues: PolicyIssue[]): unknown {
+  const fail = (message: string) => {
+    issues.push({ path, message });
+    return undefined;
+  };
+
+  switch (spec.kind) {
+    case "json":
+      return value;
+    case "boolean":
+      return typeof value === "boolean" ? value : fail("must be a boolean");
+    case "string":
+      return typeof value === "string" ? value : fail("must be a string");
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return fail("must be a number");
+      return spec.integer && !Number.isInteger(value) ? fail("must be an integer") : value;
+    case "duration":
+      return parseDuration(value) ?? fail('must be a duration in ms or a string like "30s", "1h"');
+    case "usd":
+      return parseUsd(value) ?? fail('must be a USD amount (number or string like "$0.10")');
+    case "enum":
+      return typeof value === "string" && spec.values.includes(value)
+        ? value
+        : fail(`must be one of ${spec.values.join(", ")}`);
+    case "stringOrArray":
+      if (typeof value === "string") return value;
+      return convert(strings, value, path, issues);
+    case "array":
+      if (!Array.isArray(value)) return fail("must be an array");
+      return value.map((item, i) => convert(spec.items, item, `${path}[${i}]`, issues));
+    case "record":
+      if (!isPlainObject(value)) return fail("must be an object");
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, convert(spec.values, v, `${path}[${JSON.stringify(k)}]`, issues)]),
+      );
+    case "object": {
+      if (!isPlainObject(value)) return fail("must be an object");
+      const out: [string, unknown][] = [];
+      for (const [k, v] of Object.entries(value)) {
+        const child = path ? `${path}.${k}` : k;
+        const field = Object.hasOwn(spec.fields, k) ? spec.fields[k] : undefined;
+        if (!field) issues.push({ path: child, message: "unknown key" });
+        // An empty YAML value (`budget:`) is null, not absent: it must not quietly lift a limit.
+        else if (v !== undefined) out.push([k, convert(field, v, child, issues)]);
+      }
+      for (const k of spec.required ?? []) {
+        if (value[k] === undefined) issues.push({ path: path ? `${path}.${k}` : k, message: "is required" });
+      }
+      return Object.fromEntries(out);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalid(source: string, issues: PolicyIssue[]): GuardError {
+  const list = issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join("; ");
+  return new GuardError("POLICY_INVALID", `Invalid policy (${source}): ${list}`, { source, errors: issues });
+}
@@ -0,0 +1,81 @@
+import type { Network, PaymentRequirements } from "@x402/core/types";
+import { originOf } from "../utils/url.js";
+import type { GuardPolicy } from "./policy.js";
+
+/**
+ * Merchant policy: *who* we pay, on which chain, with which scheme and token.
+ *
+ * Price checks alone cannot stop a spoofed/compromised endpoint from advertising its own `payTo`
+ * at a plausible price. These lists pin payments to known counterparties.
+ *
+ * Semantics:
+ * - `allowed*` lists: when set, a requirement must match one entry.
+ * - `deniedPayTo`: always rejects, even if also allowed.
+ * - EVM hex addresses are matched case-insensitively (checksum casing is ignored);
+ *   other address formats (e.g. base58) are matched exactly.
+ */
+export type MerchantRules = {
+  allowedPayTo?: string[];
+  deniedPayTo?: string[];
+  /** CAIP-2 ids, e.g. `eip155:8453`. */
+  allowedNetworks?: Network[];
+  allowedSchemes?: string[];
+  /** Token contract addresses. */
+  allowedAssets?: string[];
+};
+
+export type MerchantPolicy = MerchantRules & {
+  /**
+   * Per-origin rules (keyed by URL origin, e.g. `https://api.example.com`).
+   * For a matching request, each `allowed*` field set here replaces the global one;
+   * `deniedPayTo` entries are added to the global denylist.
+   */
+  byOrigin?: Record<string, MerchantRules>;
+};
+
+export type MerchantRejectionReason =
+  | "PAYTO_DENIED"
+  | "PAYTO_NOT_ALLOWED"
+  | "NETWORK_NOT_ALLOWED"
+  | "SCHEME_NOT_ALLOWED"
+  | "ASSET_NOT_ALLOWED";
+
+/** Effective rules for a request URL (global rules merged with the origin's rules). */
+export function resolveMerchantRules(policy: GuardPolicy, url: string | undefined): MerchantRules | undefined {
+  const merchants = policy.merchants;
+  if (!merchants) return undefined;
+
+  const { byOrigin, ...global } = merchants;
+  const origin = url ? originOf(url) : undefined;
+  const scoped = origin
+    ? Object.entries(byOrigin ?? {}).find(([key]) => originOf(key) === origin)?.[1]
+    : undefined;
+  if (!scoped) return global;
+
+  return {
+    allowedPayTo: scoped.allowedPayTo ?? global.allowedPayTo,
+    deniedPayTo: [...(global.deniedPayTo ?? []), ...(scoped.deniedPayTo ?? [])],
+    allowedNetworks: scoped.allowedNetworks ?? global.allowedNetworks,
+    allowedSchemes: scoped.allowedSchemes ?? global.allowedSchemes,
+    allowedAssets: scoped.allowedAssets ?? global.allowedAssets,
+  };
+}
+
+/** Returns the first violated rule for a requirement, or null if it passes. */
+export function checkMerchantRules(rules: MerchantRules, req: PaymentRequirements): MerchantRejectionReason | null {
+  if (rules.deniedPayTo && includesAddress(rules.deniedPayTo, req.payTo)) return "PAYTO_DENIED";
+  if (rules.allowedPayTo && !includesAddress(rules.allowedPayTo, req.payTo)) return "PAYTO_NOT_ALLOWED";
+  if (rules.allowedNetworks && !rules.allowedNetworks.includes(req.network)) return "NETWORK_NOT_ALLOWED";
+  if (rules.allowedSchemes && !rules.allowedSchemes.includes(req.scheme)) return "SCHEME_NOT_ALLOWED";
+  if (rules.allowedAssets && !includesAddress(rules.allowedAssets, req.asset)) return "ASSET_NOT_ALLOWED";
+  return null;
+}
+
+function includesAddress(list: string[], address: string): boolean {
+  const target = normalizeAddress(address);
+  return list.some((a) => normalizeAddress(a) === target);
+}
+
+function normalizeAddress(address: string): string {
+  return /^0x[0-9a-fA-F]+$/.test(address) ? address.toLowerCase() : address;
+}
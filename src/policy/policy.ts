@@ -1,4 +1,16 @@
 import type { PaymentRequirements } from "@x402/core/types";
+import { originOf } from "../utils/url.js";
+import type { AssetInfo } from "./assets.js";
+import type { CircuitBreakerPolicy } from "./breaker.js";
+import type { ApprovalPolicy } from "./approval.js";
+import type { IdempotencyPolicy } from "./idempotency.js";
+import { validatePredicate, type ResponsePredicate } from "./predicates.js";
+import { compileSchema, type JsonSchema } from "./schema.js";
+import type { MerchantPolicy, MerchantRules } from "./merchants.js";
+import { DEFAULT_PRICE_HISTORY_SIZE, DEFAULT_PRICE_MIN_SAMPLES, type PriceAnomalyPolicy } from "./prices.js";
+import type { RateLimitPolicy } from "./ratelimit.js";
+import { DEFAULT_ROUTE_ID, type PolicyRoute, type RoutePolicy } from "./router.js";
+import type { WalletPolicy } from "./wallets.js";
 
 /**
  * Policy types are intentionally small and explicit:
@@ -7,13 +19,24 @@ import type { PaymentRequirements } from "@x402/core/types";
  * - stable as a public SDK surface
  *
  * Units:
- * - USD values assume USDC semantics (6 decimals) when converted to base units.
- * - PaymentRequirements for x402 v2 contains `{ asset, amount }` where `amount` is a string in base units.
+ * - USD values are converted to USD micros (1e-6 USD) for comparison.
+ * - PaymentRequirements for x402 v2 contains `{ asset, amount }` where `amount` is a string in base units;
+ *   the asset registry (`assets`) converts those base units to USD micros.
  */
 export type GuardConditions = {
   requireHttp2xx?: boolean;
   maxLatencyMs?: number;
   requiredJsonFields?: string[];
+  /**
+   * JSON Schema (draft 2020-12 subset, see `schema.ts`) the response body must satisfy.
+   * Compiled once by `validatePolicy`; unsupported keywords are rejected there.
+   */
+  responseSchema?: JsonSchema;
+  /**
+   * Checks on nested values, e.g. `{ path: "$.confidence", op: ">=", value: 0.8 }` (see `predicates.ts`).
+   * All must hold; a failure names each expression that did not.
+   */
+  predicates?: ResponsePredicate[];
 };
 
 export type BudgetWindowPolicy = {
@@ -23,6 +46,18 @@ export type BudgetWindowPolicy = {
   windowMs: number;
 };
 
+/**
+ * A budget enforced on top of the (route) `budget`, at a given granularity:
+ * - `global`: one window for every request through the guard
+ * - `origin`: one window per URL origin
+ * - `endpoint`: one window per origin + path
+ */
+export type ScopedBudgetPolicy = BudgetWindowPolicy & {
+  scope: "global" | "origin" | "endpoint";
+  /** Identifies the budget in decision records / errors. Defaults to `scope`; must be unique. */
+  id?: string;
+};
+
 export type GuardPolicy = {
   /**
    * Maximum single payment amount (USD for USDC).
@@ -30,14 +65,79 @@ export type GuardPolicy = {
    */
   maxPerPaymentUsd?: number;
 
+  /**
+   * Reject prices far above what this endpoint charged before (recent median and/or first price paid),
+   * even when they fit under `maxPerPaymentUsd`.
+   */
+  priceAnomaly?: PriceAnomalyPolicy;
+
+  /**
+   * Never let a payment leave the paying wallet with less than this much (USD) of the requirement's
+   * asset. Needs `balanceProvider` (and the payer's address) in the guard config.
+   */
+  minRemainingBalanceUsd?: number;
+
   /** If true, prefer the cheapest `amount` among acceptable requirements. */
   selectCheapest?: boolean;
 
   /** Rolling spend limit inside a time window (USD for USDC). */
   budget?: BudgetWindowPolicy;
 
+  /**
+   * Additional budgets enforced together with `budget` (guard-wide; not overridable per route).
+   * A payment is allowed only if every applicable budget has room.
+   * Example: `[{ scope: "global", limitUsd: 5, windowMs: DAY }, { scope: "origin", limitUsd: 1, windowMs: HOUR }]`.
+   */
+  budgets?: ScopedBudgetPolicy[];
+
+  /**
+   * Limits on how many payments are signed per sliding window, whatever their amount (guard-wide; not
+   * overridable per route). Example: `[{ scope: "global", maxPayments: 100, windowMs: HOUR },
+   * { scope: "origin", maxPayments: 10, windowMs: MINUTE }]`.
+   */
+  rateLimits?: RateLimitPolicy[];
+
+  /**
+   * Which of the guard's `wallets` pays for what, tried in order (guard-wide; not overridable per
+   * route). Each rule can limit its wallet's networks and payment size and give it its own budget.
+   */
+  wallets?: WalletPolicy[];
+
   /** Response quality checks (note: cannot prevent the *first* payment, but can prevent retry-drain). */
-  conditions?: GuardConditions;  
+  conditions?: GuardConditions;
+
+  /** Payments above `thresholdUsd` wait for `requestApproval` (guard config) before signing. */
+  approval?: ApprovalPolicy;
+
+  /** Block a second payment for the same logical request (idempotency key) within `ttlMs`. */
+  idempotency?: IdempotencyPolicy;
+
+  /** Stop paying an endpoint (origin + path) after repeated condition failures, until a cooldown passes. */
+  circuitBreaker?: CircuitBreakerPolicy;
+
+  /**
+   * Extra assets (decimals + USD price) on top of the built-in USDC deployments.
+   * Entries for an already-known `(network, asset)` replace the built-in one.
+   */
+  assets?: AssetInfo[];
+
+  /**
+   * Reject requirements whose `(network, asset)` is not in the registry. Default: true.
+   * If false, unknown assets are valued with the legacy USDC assumption (6 decimals, $1).
+   */
+  rejectUnknownAssets?: boolean;
+
+  /** Allow/deny lists for `payTo`, network, scheme and asset (optionally per URL origin). */
+  merchants?: MerchantPolicy;
+
+  /**
+   * Per-endpoint policies, matched in order on origin / path glob / method.
+   * A matched route's fields override this (default) policy's fields.
+   */
+  routes?: PolicyRoute[];
+
+  /** If true, requests matching no route are denied instead of using the default policy. */
+  strictRouting?: boolean;
 };
 
 /**
@@ -45,28 +145,177 @@ export type GuardPolicy = {
  * Guard is fail-closed: invalid policies should throw immediately rather than silently mis-enforce.
  */
 export function validatePolicy(policy: GuardPolicy): void {
+  validatePolicyFields("policy", policy);
+
+  const budgetIds = new Set<string>();
+  for (const [i, b] of (policy.budgets ?? []).entries()) {
+    const path = `policy.budgets[${i}]`;
+    if (!["global", "origin", "endpoint"].includes(b.scope)) {
+      throw new Error(`${path}.scope must be one of global, origin, endpoint`);
+    }
+    if (!(b.limitUsd > 0)) throw new Error(`${path}.limitUsd must be > 0`);
+    if (!(b.windowMs > 0)) throw new Error(`${path}.windowMs must be > 0`);
+    const id = b.id ?? b.scope;
+    if (budgetIds.has(id)) throw new Error(`${path}.id "${id}" is not unique (set an explicit id)`);
+    budgetIds.add(id);
+  }
+
+  const rateLimitIds = new Set<string>();
+  for (const [i, r] of (policy.rateLimits ?? []).entries()) {
+    const path = `policy.rateLimits[${i}]`;
+    if (!["global", "origin"].includes(r.scope)) throw new Error(`${path}.scope must be one of global, origin`);
+    if (!Number.isInteger(r.maxPayments) || r.maxPayments < 1) throw new Error(`${path}.maxPayments must be an integer >= 1`);
+    if (!(r.windowMs > 0)) throw new Error(`${path}.windowMs must be > 0`);
+    const id = r.id ?? r.scope;
+    if (rateLimitIds.has(id)) throw new Error(`${path}.id "${id}" is not unique (set an explicit id)`);
+    rateLimitIds.add(id);
+  }
+
+  const walletIds = new Set<string>();
+  for (const [i, w] of (policy.wallets ?? []).entries()) {
+    const path = `policy.wallets[${i}]`;
+    if (typeof w.id !== "string" || w.id.length === 0) throw new Error(`${path}.id is required`);
+    if (walletIds.has(w.id)) throw new Error(`${path}.id "${w.id}" is not unique`);
+    walletIds.add(w.id);
+    if (w.networks !== undefined && (!Array.isArray(w.networks) || w.networks.some((n) => typeof n !== "string" || !n.includes(":")))) {
+      throw new Error(`${path}.networks must contain CAIP-2 ids or patterns (e.g. eip155:*)`);
+    }
+    if (w.maxPerPaymentUsd !== undefined && !(w.maxPerPaymentUsd > 0)) throw new Error(`${path}.maxPerPaymentUsd must be > 0`);
+    if (w.budget) {
+      if (!(w.budget.limitUsd > 0)) throw new Error(`${path}.budget.limitUsd must be > 0`);
+      if (!(w.budget.windowMs > 0)) throw new Error(`${path}.budget.windowMs must be > 0`);
+    }
+  }
+
+  const ids = new Set<string>();
+  for (const [i, route] of (policy.routes ?? []).entries()) {
+    const path = `policy.routes[${i}]`;
+    if (typeof route.id !== "string" || route.id.length === 0) throw new Error(`${path}.id is required`);
+    if (route.id === DEFAULT_ROUTE_ID) throw new Error(`${path}.id "${DEFAULT_ROUTE_ID}" is reserved`);
+    if (ids.has(route.id)) throw new Error(`${path}.id "${route.id}" is not unique`);
+    ids.add(route.id);
+
+    if (route.match?.origin !== undefined && !originOf(route.match.origin)) {
+      throw new Error(`${path}.match.origin must be a URL origin`);
+    }
+    if (route.match?.path !== undefined && !route.match.path.startsWith("/")) {
+      throw new Error(`${path}.match.path must start with "/"`);
+    }
+    if ("routes" in (route.policy ?? {}) || "strictRouting" in (route.policy ?? {})) {
+      throw new Error(`${path}.policy cannot nest routes`);
+    }
+    if ("budgets" in (route.policy ?? {})) {
+      throw new Error(`${path}.policy cannot set budgets (they are guard-wide); use budget`);
+    }
+    if ("rateLimits" in (route.policy ?? {})) {
+      throw new Error(`${path}.policy cannot set rateLimits (they are guard-wide)`);
+    }
+    if ("wallets" in (route.policy ?? {})) {
+      throw new Error(`${path}.policy cannot set wallets (they are guard-wide)`);
+    }
+    validatePolicyFields(`${path}.policy`, route.policy ?? {});
+  }
+}
+
+function validatePolicyFields(prefix: string, policy: RoutePolicy): void {
   if (policy.maxPerPaymentUsd !== undefined && !(policy.maxPerPaymentUsd > 0)) {
-    throw new Error("policy.maxPerPaymentUsd must be > 0");
+    throw new Error(`${prefix}.maxPerPaymentUsd must be > 0`);
+  }
+  if (policy.minRemainingBalanceUsd !== undefined && !(policy.minRemainingBalanceUsd >= 0)) {
+    throw new Error(`${prefix}.minRemainingBalanceUsd must be >= 0`);
   }
   if (policy.budget) {
-    if (!(policy.budget.limitUsd > 0)) throw new Error("policy.budget.limitUsd must be > 0");
-    if (!(policy.budget.windowMs > 0)) throw new Error("policy.budget.windowMs must be > 0");
+    if (!(policy.budget.limitUsd > 0)) throw new Error(`${prefix}.budget.limitUsd must be > 0`);
+    if (!(policy.budget.windowMs > 0)) throw new Error(`${prefix}.budget.windowMs must be > 0`);
+  }
+  if (policy.priceAnomaly) {
+    const p = policy.priceAnomaly;
+    if (p.maxMultiple === undefined && !p.pinFirstPrice) {
+      throw new Error(`${prefix}.priceAnomaly needs maxMultiple and/or pinFirstPrice`);
+    }
+    if (p.maxMultiple !== undefined && !(p.maxMultiple >= 1)) throw new Error(`${prefix}.priceAnomaly.maxMultiple must be >= 1`);
+    for (const field of ["historySize", "minSamples"] as const) {
+      const v = p[field];
+      if (v !== undefined && (!Number.isInteger(v) || v < 1)) throw new Error(`${prefix}.priceAnomaly.${field} must be an integer >= 1`);
+    }
+    if ((p.minSamples ?? DEFAULT_PRICE_MIN_SAMPLES) > (p.historySize ?? DEFAULT_PRICE_HISTORY_SIZE)) {
+      throw new Error(`${prefix}.priceAnomaly.minSamples must be <= historySize`);
+    }
   }
   if (policy.conditions?.maxLatencyMs !== undefined && !(policy.conditions.maxLatencyMs > 0)) {
-    throw new Error("policy.conditions.maxLatencyMs must be > 0");
+    throw new Error(`${prefix}.conditions.maxLatencyMs must be > 0`);
   }
   if (policy.conditions?.requiredJsonFields) {
     if (!Array.isArray(policy.conditions.requiredJsonFields)) {
-      throw new Error("policy.conditions.requiredJsonFields must be an array of strings");
+      throw new Error(`${prefix}.conditions.requiredJsonFields must be an array of strings`);
     }
   }
+  if (policy.conditions?.responseSchema !== undefined) {
+    compileSchema(policy.conditions.responseSchema, `${prefix}.conditions.responseSchema`);
+  }
+  if (policy.conditions?.predicates !== undefined) {
+    if (!Array.isArray(policy.conditions.predicates)) throw new Error(`${prefix}.conditions.predicates must be an array`);
+    for (const [i, p] of policy.conditions.predicates.entries()) {
+      validatePredicate(`${prefix}.conditions.predicates[${i}]`, p);
+    }
+  }
+  if (policy.circuitBreaker) {
+    if (!Number.isInteger(policy.circuitBreaker.failureThreshold) || policy.circuitBreaker.failureThreshold < 1) {
+      throw new Error(`${prefix}.circuitBreaker.failureThreshold must be an integer >= 1`);
+    }
+    if (!(policy.circuitBreaker.cooldownMs > 0)) throw new Error(`${prefix}.circuitBreaker.cooldownMs must be > 0`);
+  }
+  if (policy.approval) {
+    if (!(policy.approval.thresholdUsd >= 0)) throw new Error(`${prefix}.approval.thresholdUsd must be >= 0`);
+    if (policy.approval.timeoutMs !== undefined && !(policy.approval.timeoutMs > 0)) {
+      throw new Error(`${prefix}.approval.timeoutMs must be > 0`);
+    }
+  }
+  if (policy.idempotency) {
+    if (!(policy.idempotency.ttlMs > 0)) throw new Error(`${prefix}.idempotency.ttlMs must be > 0`);
+    if (policy.idempotency.deriveKey !== undefined && typeof policy.idempotency.deriveKey !== "boolean") {
+      throw new Error(`${prefix}.idempotency.deriveKey must be a boolean`);
+    }
+  }
+  if (policy.merchants) {
+    const { byOrigin, ...global } = policy.merchants;
+    validateMerchantRules(`${prefix}.merchants`, global);
+    for (const [origin, rules] of Object.entries(byOrigin ?? {})) {
+      if (!originOf(origin)) throw new Error(`${prefix}.merchants.byOrigin key must be a URL origin: ${origin}`);
+      validateMerchantRules(`${prefix}.merchants.byOrigin[${origin}]`, rules);
+    }
+  }
+  for (const [i, a] of (policy.assets ?? []).entries()) {
+    if (typeof a.network !== "string" || !a.network.includes(":")) {
+      throw new Error(`${prefix}.assets[${i}].network must be a CAIP-2 id`);
+    }
+    if (typeof a.asset !== "string" || a.asset.length === 0) throw new Error(`${prefix}.assets[${i}].asset is required`);
+    if (!Number.isInteger(a.decimals) || a.decimals < 0 || a.decimals > 36) {
+      throw new Error(`${prefix}.assets[${i}].decimals must be an integer in [0, 36]`);
+    }
+    if (typeof a.usdPrice === "number" ? !(a.usdPrice > 0) : typeof a.usdPrice !== "function") {
+      throw new Error(`${prefix}.assets[${i}].usdPrice must be > 0 or a price callback`);
+    }
+  }
+}
+
+function validateMerchantRules(path: string, rules: MerchantRules): void {
+  for (const field of ["allowedPayTo", "deniedPayTo", "allowedNetworks", "allowedSchemes", "allowedAssets"] as const) {
+    const list = rules[field];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || list.some((v) => typeof v !== "string" || v.length === 0)) {
+      throw new Error(`${path}.${field} must be an array of non-empty strings`);
+    }
+  }
+  if (rules.allowedNetworks?.some((n) => !n.includes(":"))) {
+    throw new Error(`${path}.allowedNetworks must contain CAIP-2 ids (e.g. eip155:8453)`);
+  }
 }
 
 /**
  * Parses x402 v2 `PaymentRequirements.amount` (string base units) into a bigint.
  *
- * NOTE: This assumes USDC-like 6 decimal semantics when later converted to USD display.
- * If the server returns a different asset/decimals, callers should not interpret this as USD.
+ * NOTE: these are base units of `req.asset`, not USD. Use `AssetRegistry.value` to get USD micros.
  */
 export function parseUsdcAmountBaseUnits(req: PaymentRequirements): bigint | null {
   // V2 PaymentRequirements includes `{ asset, amount }` where amount is base units (string).
@@ -79,7 +328,7 @@ export function parseUsdcAmountBaseUnits(req: PaymentRequirements): bigint | nul
 }
 
 /**
- * Converts a USD value to USDC base units (6 decimals).
+ * Converts a USD value to USDC base units (6 decimals), i.e. USD micros.
  *
  * We round down (floor) to be conservative:
  * - caps/budgets become slightly stricter rather than permissive due to floating point issues.
@@ -0,0 +1,174 @@
+import { deepEqual } from "../utils/json.js";
+
+/**
+ * Predicate conditions over the parsed response body.
+ *
+ * `requiredJsonFields` only checks flat top-level keys for presence. Predicates express the checks
+ * that actually distinguish a useful result from a hollow one:
+ *
+ * - `{ path: "$.result.items", length: true, op: ">=", value: 1 }`
+ * - `{ path: "$.confidence", op: ">=", value: 0.8 }`
+ * - `{ path: "$.status", op: "==", value: "complete" }`
+ *
+ * Paths: `$` is the body; `.name` selects a property, `[0]` an array index, `["odd name"]` a property
+ * whose name is not an identifier. Nothing else (no wildcards, filters or functions), so evaluation is
+ * deterministic and cheap. A path that does not resolve fails every predicate (fail closed).
+ */
+export type PredicateOp = "exists" | "==" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "matches";
+
+export type ResponsePredicate = {
+  path: string;
+  op: PredicateOp;
+  /** Operand: a number for `>`/`>=`/`<`/`<=`, an array for `in`, a regex source for `matches`. */
+  value?: unknown;
+  /** Compare the length of the string/array at `path` instead of the value itself. */
+  length?: boolean;
+};
+
+export type PredicateFailure = {
+  /** The predicate rendered as one expression, e.g. `length($.result.items) >= 1`. */
+  expression: string;
+  reason: string;
+};
+
+type PathSegment = string | number;
+
+const OPS = new Set<PredicateOp>(["exists", "==", "!=", ">", ">=", "<", "<=", "in", "matches"]);
+const ORDERING = new Set<PredicateOp>([">", ">=", "<", "<="]);
+
+/** Throws an Error naming `prefix` if the predicate is malformed. */
+export function validatePredicate(prefix: string, p: ResponsePredicate): void {
+  if (typeof p?.path !== "string") throw new Error(`${prefix}.path must be a string`);
+  try {
+    parsePath(p.path);
+  } catch (e: any) {
+    throw new Error(`${prefix}.path ${e.message}`);
+  }
+  if (!OPS.has(p.op)) throw new Error(`${prefix}.op must be one of ${[...OPS].join(", ")}`);
+  if (p.length !== undefined && typeof p.length !== "boolean") throw new Error(`${prefix}.length must be a boolean`);
+
+  if (p.length && !ORDERING.has(p.op) && p.op !== "==" && p.op !== "!=") {
+    throw new Error(`${prefix}.op "${p.op}" cannot be used with length`);
+  }
+  if ((ORDERING.has(p.op) || p.length) && (typeof p.value !== "number" || !Number.isFinite(p.value))) {
+    throw new Error(`${prefix}.value must be a number for ${describePredicate(p)}`);
+  }
+  if (p.op === "in" && !Array.isArray(p.value)) throw new Error(`${prefix}.value must be an array for "in"`);
+  if (p.op === "matches") {
+    if (typeof p.value !== "string") throw new Error(`${prefix}.value must be a regex source string for "matches"`);
+    try {
+      new RegExp(p.value, "u");
+    } catch {
+      throw new Error(`${prefix}.value is not a valid regular expression`);
+    }
+  }
+  if ((p.op === "==" || p.op === "!=") && p.value === undefined) throw new Error(`${prefix}.value is required for "${p.op}"`);
+}
+
+/** Evaluates every predicate; returns one failure per predicate that does not hold. */
+export function evaluatePredicates(body: unknown, predicates: ResponsePredicate[]): PredicateFailure[] {
+  const failures: PredicateFailure[] = [];
+  for (const p of predicates) {
+    const reason = check(body, p);
+    if (reason) failures.push({ expression: describePredicate(p), reason });
+  }
+  return failures;
+}
+
+export function describePredicate(p: ResponsePredicate): string {
+  const subject = p.length ? `length(${p.path})` : p.path;
+  if (p.op === "exists") return `${subject} exists`;
+  return `${subject} ${p.op} ${JSON.stringify(p.value)}`;
+}
+
+function check(body: unknown, p: ResponsePredicate): string | null {
+  const found = resolvePath(body, parsePath(p.path));
+  if (!found.ok) return "path not found";
+  let actual = found.value;
+
+  if (p.op === "exists") return actual === null ? "value is null" : null;
+
+  if (p.length) {
+    if (typeof actual !== "string" && !Array.isArray(actual)) return `expected a string or array, got ${typeOf(actual)}`;
+    actual = actual.length;
+  }
+
+  switch (p.op) {
+    case "==":
+      return deepEqual(actual, p.value) ? null : `got ${show(actual)}`;
+    case "!=":
+      return deepEqual(actual, p.value) ? `got ${show(actual)}` : null;
+    case "in":
+      return (p.value as unknown[]).some((v) => deepEqual(actual, v)) ? null : `got ${show(actual)}`;
+    case "matches":
+      if (typeof actual !== "string") return `expected a string, got ${typeOf(actual)}`;
+      return new RegExp(p.value as string, "u").test(actual) ? null : `got ${show(actual)}`;
+    default: {
+      if (typeof actual !== "number") return `expected a number, got ${typeOf(actual)}`;
+      const v = p.value as number;
+      const ok =
+        p.op === ">" ? actual > v
+        : p.op === ">=" ? actual >= v
+        : p.op === "<" ? actual < v
+        : actual <= v;
+      return ok ? null : `got ${actual}`;
+    }
+  }
+}
+
+/** Parses `$.a.b[0]["c d"]` into segments; throws on anything else. */
+export function parsePath(path: string): PathSegment[] {
+  if (!path.startsWith("$")) throw new Error(`must start with "$"`);
+  const segments: PathSegment[] = [];
+  let i = 1;
+  while (i < path.length) {
+    if (path[i] === ".") {
+      const m = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(path.slice(i + 1));
+      if (!m) throw new Error(`has an invalid property name at offset ${i + 1}`);
+      segments.push(m[0]);
+      i += 1 + m[0].length;
+    } else if (path[i] === "[") {
+      const rest = path.slice(i);
+      const index = /^\[(\d+)\]/.exec(rest);
+      const quoted = /^\["((?:[^"\\]|\\.)*)"\]/.exec(rest);
+      if (index) {
+        segments.push(Number(index[1]));
+        i += index[0].length;
+      } else if (quoted) {
+        segments.push(JSON.parse(`"${quoted[1]}"`));
+        i += quoted[0].length;
+      } else {
+        throw new Error(`has an invalid bracket segment at offset ${i}`);
+      }
+    } else {
+      throw new Error(`has an unexpected character at offset ${i}`);
+    }
+  }
+  return segments;
+}
+
+function resolvePath(body: unknown, segments: PathSegment[]): { ok: true; value: unknown } | { ok: false } {
+  let current = body;
+  for (const s of segments) {
+    if (typeof s === "number") {
+      if (!Array.isArray(current) || s >= current.length) return { ok: false };
+      current = current[s];
+    } else {
+      if (typeof current !== "object" || current === null || Array.isArray(current) || !Object.hasOwn(current, s)) {
+        return { ok: false };
+      }
+      current = (current as Record<string, unknown>)[s];
+    }
+  }
+  return current === undefined ? { ok: false } : { ok: true, value: current };
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+function show(v: unknown): string {
+  return typeof v === "object" && v !== null ? typeOf(v) : JSON.stringify(v);
+}
@@ -0,0 +1,85 @@
+import type { PriceHistory, PriceHistoryStore } from "../stores/prices.js";
+import { endpointOf } from "../utils/url.js";
+
+/**
+ * Price anomaly detection: compare an endpoint's quoted prices with what the guard paid it before.
+ *
+ * `maxPerPaymentUsd` is a fixed ceiling; a service that normally charges $0.001 can jump to $0.09 and
+ * still fit under a $0.10 cap. With `priceAnomaly` the guard also rejects requirements priced:
+ * - above `maxMultiple` × the median of the endpoint's recent prices (once `minSamples` are known)
+ * - above the first price ever paid to the endpoint (`pinFirstPrice`)
+ *
+ * Only prices the guard actually signed are recorded, so a server cannot shift the median by
+ * advertising prices nobody pays. Offending requirements are rejected as `PRICE_ANOMALY`; an endpoint
+ * without history is not limited (the per-payment cap still is).
+ */
+export type PriceAnomalyPolicy = {
+  /** Reject prices above this multiple of the recent median, e.g. `3`. */
+  maxMultiple?: number;
+  /** Reject prices above the first one paid to the endpoint. */
+  pinFirstPrice?: boolean;
+  /** Recent prices kept per endpoint (the median's sample). Default: 20. */
+  historySize?: number;
+  /** Prices needed before the median is trusted. Default: 3. */
+  minSamples?: number;
+};
+
+export const DEFAULT_PRICE_HISTORY_SIZE = 20;
+export const DEFAULT_PRICE_MIN_SAMPLES = 3;
+
+/** Highest acceptable price for one endpoint, and what it was derived from. */
+export type PriceReference = {
+  maxUsdMicros: bigint;
+  medianUsdMicros?: bigint;
+  pinnedUsdMicros?: bigint;
+};
+
+/** The price limit `history` implies under `policy`, or undefined if it implies none (yet). */
+export function priceReference(policy: PriceAnomalyPolicy, history: PriceHistory | undefined): PriceReference | undefined {
+  if (!history) return undefined;
+  const limits: bigint[] = [];
+  let medianUsdMicros: bigint | undefined;
+  let pinnedUsdMicros: bigint | undefined;
+
+  if (policy.maxMultiple !== undefined && history.recent.length >= (policy.minSamples ?? DEFAULT_PRICE_MIN_SAMPLES)) {
+    medianUsdMicros = median(history.recent.map((o) => o.usdMicros));
+    // Multiples are applied in thousandths so the limit stays exact in bigint micros.
+    limits.push((medianUsdMicros * BigInt(Math.round(policy.maxMultiple * 1_000))) / 1_000n);
+  }
+  if (policy.pinFirstPrice) {
+    pinnedUsdMicros = history.first.usdMicros;
+    limits.push(pinnedUsdMicros);
+  }
+  if (limits.length === 0) return undefined;
+  return { maxUsdMicros: limits.reduce((a, b) => (b < a ? b : a)), medianUsdMicros, pinnedUsdMicros };
+}
+
+/** `priceReference` for the endpoint of `url`; undefined without a policy or a parseable URL. */
+export function endpointPriceReference(
+  store: PriceHistoryStore,
+  policy: PriceAnomalyPolicy | undefined,
+  url: string | undefined,
+): PriceReference | undefined {
+  const endpoint = url && endpointOf(url);
+  if (!policy || !endpoint) return undefined;
+  return priceReference(policy, store.get(endpoint));
+}
+
+/** Records a price the guard signed for the endpoint of `url` (only where `policy` asks for history). */
+export function recordEndpointPrice(
+  store: PriceHistoryStore,
+  policy: PriceAnomalyPolicy | undefined,
+  url: string | undefined,
+  usdMicros: bigint,
+  now = Date.now(),
+): void {
+  const endpoint = url && endpointOf(url);
+  if (!policy || !endpoint) return;
+  store.record(endpoint, { ts: now, usdMicros }, policy.historySize ?? DEFAULT_PRICE_HISTORY_SIZE);
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2n;
+}
@@ -0,0 +1,124 @@
+import { GuardError } from "../utils/errors.js";
+import { originOf } from "../utils/url.js";
+
+/**
+ * Payment-count rate limits: how many payments may be signed inside a sliding window.
+ *
+ * Budgets bound how much is spent, not how often: a $1 budget with $0.00001 payments still allows
+ * 100,000 paid calls. A rate limit counts payments regardless of their amount:
+ * - `global`: one window for every payment through the guard
+ * - `origin`: one window per URL origin
+ *
+ * Slots work like budget holds: one is taken before signing (so concurrent requests cannot all pass
+ * the check), kept once a payload is signed, and given back if nothing was. State is in-memory.
+ */
+export type RateLimitPolicy = {
+  scope: "global" | "origin";
+  /** Payments allowed inside the window. */
+  maxPayments: number;
+  /** Sliding window length in milliseconds. */
+  windowMs: number;
+  /** Identifies the limit in errors. Defaults to `scope`; must be unique. */
+  id?: string;
+};
+
+/** A rate limit instance that applies to one request. */
+export type ApplicableRateLimit = {
+  /** `rateLimits[].id` (or its scope). */
+  id: string;
+  /** Concrete instance key, e.g. `origin:origin:https://api.example.com`. */
+  key: string;
+  policy: RateLimitPolicy;
+};
+
+export type RateLimitSlot = { key: string; id: number };
+
+export type RateLimitCheck =
+  | { ok: true; slots: RateLimitSlot[] }
+  | { ok: false; blockedBy: ApplicableRateLimit; count: number; nextAllowedAt: number };
+
+type Slot = { id: number; at: number; held: boolean };
+
+/** The denial for a failed `take`; says when the next payment will be allowed. */
+export function rateLimitError(check: Extract<RateLimitCheck, { ok: false }>, now = Date.now()): GuardError {
+  const { id, key, policy } = check.blockedBy;
+  return new GuardError(
+    "PAYMENT_BLOCKED_RATE_LIMIT",
+    `Blocked by rate limit (${id}): ${check.count} payments in the last ${policy.windowMs}ms (max ${policy.maxPayments}).`,
+    {
+      rateLimit: id,
+      rateLimitKey: key,
+      maxPayments: policy.maxPayments,
+      windowMs: policy.windowMs,
+      count: check.count,
+      nextAllowedAt: new Date(check.nextAllowedAt).toISOString(),
+      retryAfterMs: Math.max(0, check.nextAllowedAt - now),
+    },
+  );
+}
+
+/** Every rate limit instance for a request URL. Requests without a parseable URL share one `unknown` bucket. */
+export function applicableRateLimits(limits: RateLimitPolicy[] | undefined, url: string | undefined): ApplicableRateLimit[] {
+  return (limits ?? []).map((policy) => {
+    const id = rateLimitId(policy);
+    const key = policy.scope === "global" ? `global:${id}` : `origin:${id}:${(url && originOf(url)) ?? "unknown"}`;
+    return { id, key, policy };
+  });
+}
+
+export function rateLimitId(policy: RateLimitPolicy): string {
+  return policy.id ?? policy.scope;
+}
+
+/**
+ * Sliding-window payment counters, one per rate limit instance key.
+ * Window and maximum come from the policy on every call, so a policy update applies to past payments.
+ */
+export class RateLimiter {
+  private readonly windows = new Map<string, Slot[]>();
+  private nextSlotId = 1;
+
+  /**
+   * Takes a slot in every applicable limit, or in none. Held slots count until committed or released;
+   * committed ones until they leave the window.
+   */
+  take(targets: ApplicableRateLimit[], now = Date.now()): RateLimitCheck {
+    const slots: RateLimitSlot[] = [];
+    for (const target of targets) {
+      const window = this.window(target.key, target.policy.windowMs, now);
+      if (window.length >= target.policy.maxPayments) {
+        for (const s of slots) this.release(s);
+        // The next payment fits once enough of the oldest slots have left the window.
+        const times = window.map((s) => s.at).sort((a, b) => a - b);
+        const nextAllowedAt = times[window.length - target.policy.maxPayments]! + target.policy.windowMs;
+        return { ok: false, blockedBy: target, count: window.length, nextAllowedAt };
+      }
+      const slot = { id: this.nextSlotId++, at: now, held: true };
+      window.push(slot);
+      slots.push({ key: target.key, id: slot.id });
+    }
+    return { ok: true, slots };
+  }
+
+  /** The payment was signed: the slot counts from now until it leaves the window. */
+  commit(slot: RateLimitSlot, now = Date.now()): void {
+    const s = this.windows.get(slot.key)?.find((c) => c.id === slot.id);
+    if (!s) return;
+    s.held = false;
+    s.at = now;
+  }
+
+  /** Nothing was signed: frees the slot. Safe to call more than once. */
+  release(slot: RateLimitSlot): void {
+    const window = this.windows.get(slot.key);
+    const i = window?.findIndex((s) => s.id === slot.id && s.held) ?? -1;
+    if (i >= 0) window!.splice(i, 1);
+  }
+
+  private window(key: string, windowMs: number, now: number): Slot[] {
+    const cutoff = now - windowMs;
+    const window = (this.windows.get(key) ?? []).filter((s) => s.held || s.at > cutoff);
+    this.windows.set(key, window);
+    return window;
+  }
+}
@@ -1,6 +1,10 @@
 import type { PaymentRequirements } from "@x402/core/types";
+import { GuardError } from "../utils/errors.js";
+import { AssetRegistry } from "./assets.js";
+import { checkMerchantRules, resolveMerchantRules, type MerchantRejectionReason } from "./merchants.js";
 import type { GuardPolicy } from "./policy.js";
-import { parseUsdcAmountBaseUnits, usdToUsdcBaseUnits } from "./policy.js";
+import type { PriceReference } from "./prices.js";
+import { usdToUsdcBaseUnits } from "./policy.js";
 
 /**
  * Payment requirement evaluation (pre-payment guardrails).
@@ -9,7 +13,11 @@ import { parseUsdcAmountBaseUnits, usdToUsdcBaseUnits } from "./policy.js";
  * Most clients will select a requirement using a default selector (often "first acceptable option").
  *
  * This module provides a **pure, deterministic, testable** transformation over that list:
+ * - drop options paying a counterparty/network/scheme/asset the merchant policy does not allow
+ * - value each option in USD via the asset registry (unknown assets are rejected by default)
  * - filter out options that violate policy (e.g. above per-payment cap)
+ * - filter out options priced far above the endpoint's history (`priceAnomaly`, given as `prices`)
+ * - filter out options none of the guard's wallets may pay (`wallets`, given as `canPay`)
  * - optionally sort remaining options cheapest-first (so default selection doesn't overpay)
  *
  * Why this is important:
@@ -17,7 +25,7 @@ import { parseUsdcAmountBaseUnits, usdToUsdcBaseUnits } from "./policy.js";
  * - It avoids burying policy in side effects or heuristics; the output is explainable and auditable.
  *
  * Limitations:
- * - Amount parsing currently assumes USDC-like semantics via `amount` base units (x402 v2).
+ * - Valuation is only as good as the registry's decimals/prices (see `AssetRegistry`).
  * - Requirements with non-parseable amounts are treated as unacceptable (fail-closed).
  */
 export type RequirementRejection = {
@@ -26,7 +34,27 @@ export type RequirementRejection = {
    * Keep this small and stable so it can be safely emitted in decision records.
    */
   requirement: Pick<PaymentRequirements, "scheme" | "network" | "amount" | "asset" | "payTo">;
-  reason: "ABOVE_PER_PAYMENT_CAP";
+  reason: RequirementRejectionReason;
+};
+
+export type RequirementRejectionReason =
+  | MerchantRejectionReason
+  | "ABOVE_PER_PAYMENT_CAP"
+  | "PRICE_ANOMALY"
+  | "NO_WALLET"
+  | "INVALID_AMOUNT"
+  | "UNKNOWN_ASSET"
+  | "ASSET_PRICE_UNAVAILABLE";
+
+export type EvaluateOptions = {
+  /** Asset registry to value requirements with (defaults to the policy's registry). */
+  assets?: AssetRegistry;
+  /** URL of the request being paid for; selects origin-scoped merchant rules. */
+  url?: string;
+  /** Highest acceptable price for this endpoint per `policy.priceAnomaly` (see `priceReference`). */
+  prices?: PriceReference;
+  /** Multi-wallet guards: whether some wallet may pay a requirement (see `routeWallet`). */
+  canPay?: (requirement: PaymentRequirements, usdMicros: bigint) => boolean;
 };
 
 /**
@@ -39,33 +67,78 @@ export type RequirementRejection = {
 export function evaluatePaymentRequirements(
   policy: GuardPolicy,
   reqs: PaymentRequirements[],
+  options: EvaluateOptions = {},
 ): { acceptable: PaymentRequirements[]; rejected: RequirementRejection[] } {
-  let acceptable = reqs;
   const rejected: RequirementRejection[] = [];
+  const reject = (r: PaymentRequirements, reason: RequirementRejectionReason) =>
+    rejected.push({
+      requirement: { scheme: r.scheme, network: r.network, amount: r.amount, asset: r.asset, payTo: r.payTo },
+      reason,
+    });
+
+  const assets = options.assets ?? AssetRegistry.forPolicy(policy);
+  const merchantRules = resolveMerchantRules(policy, options.url);
+
+  // Value once; every later step compares USD micros, never raw base units of different assets.
+  const valued: Array<{ req: PaymentRequirements; usdMicros: bigint }> = [];
+  for (const r of reqs) {
+    const merchantViolation = merchantRules ? checkMerchantRules(merchantRules, r) : null;
+    if (merchantViolation) {
+      reject(r, merchantViolation);
+      continue;
+    }
+    const v = assets.value(r);
+    if (v.ok) valued.push({ req: r, usdMicros: v.usdMicros });
+    else reject(r, v.reason);
+  }
+
+  let acceptable = valued;
 
   if (policy.maxPerPaymentUsd !== undefined) {
     const cap = usdToUsdcBaseUnits(policy.maxPerPaymentUsd);
-    acceptable = acceptable.filter((r) => {
-      const amount = parseUsdcAmountBaseUnits(r);
-      if (amount === null) return false;
-      if (amount <= cap) return true;
-      rejected.push({
-        requirement: { scheme: r.scheme, network: r.network, amount: r.amount, asset: r.asset, payTo: r.payTo },
-        reason: "ABOVE_PER_PAYMENT_CAP",
-      });
+    acceptable = acceptable.filter((v) => {
+      if (v.usdMicros <= cap) return true;
+      reject(v.req, "ABOVE_PER_PAYMENT_CAP");
       return false;
     });
   }
 
-  if (policy.selectCheapest) {
-    acceptable = [...acceptable].sort((a, b) => {
-      const av = parseUsdcAmountBaseUnits(a) ?? 0n;
-      const bv = parseUsdcAmountBaseUnits(b) ?? 0n;
-      return av < bv ? -1 : av > bv ? 1 : 0;
+  const prices = policy.priceAnomaly ? options.prices : undefined;
+  if (prices) {
+    acceptable = acceptable.filter((v) => {
+      if (v.usdMicros <= prices.maxUsdMicros) return true;
+      reject(v.req, "PRICE_ANOMALY");
+      return false;
     });
   }
 
-  return { acceptable, rejected };
-}
+  const canPay = options.canPay;
+  if (canPay) {
+    acceptable = acceptable.filter((v) => {
+      if (canPay(v.req, v.usdMicros)) return true;
+      reject(v.req, "NO_WALLET");
+      return false;
+    });
+  }
+
+  if (policy.selectCheapest) {
+    acceptable = [...acceptable].sort((a, b) => (a.usdMicros < b.usdMicros ? -1 : a.usdMicros > b.usdMicros ? 1 : 0));
+  }
 
+  return { acceptable: acceptable.map((v) => v.req), rejected };
+}
 
+/** The denial when no requirement survives `evaluatePaymentRequirements`. */
+export function noAcceptableRequirementsError(
+  reqs: PaymentRequirements[],
+  rejected: RequirementRejection[],
+): GuardError {
+  return new GuardError(
+    "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+    "No acceptable payment requirements remain after applying guard policy.",
+    {
+      available: reqs.map((r) => ({ scheme: r.scheme, network: r.network, amount: r.amount, payTo: r.payTo })),
+      rejected: rejected.map((r) => ({ payTo: r.requirement.payTo, reason: r.reason })),
+    },
+  );
+}
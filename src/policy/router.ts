@@ -0,0 +1,93 @@
+import { originOf } from "../utils/url.js";
+import type { GuardPolicy } from "./policy.js";
+
+/**
+ * Policy routing: different guardrails for different endpoints behind one guard.
+ *
+ * Routes are evaluated in order; the first match wins. A matched route's policy fields replace the
+ * default policy's fields of the same name (shallow merge), so a route only states what differs.
+ *
+ * - No match + `strictRouting: false` (default): the default policy applies (route id `"default"`).
+ * - No match + `strictRouting: true`: the request is denied before anything is sent.
+ */
+export type RouteMatch = {
+  /** URL origin, e.g. `https://api.example.com`. */
+  origin?: string;
+  /**
+   * Path glob: `*` matches within one segment, `**` matches across segments.
+   * Example: `/v1/search/*`, `/v1/**`.
+   */
+  path?: string;
+  /** HTTP method(s), case-insensitive. A missing request method counts as GET. */
+  method?: string | string[];
+};
+
+export type RoutePolicy = Omit<GuardPolicy, "routes" | "strictRouting" | "budgets" | "rateLimits" | "wallets">;
+
+export type PolicyRoute = {
+  /** Stable id recorded in decision records; must be unique and not `"default"`. */
+  id: string;
+  match: RouteMatch;
+  policy: RoutePolicy;
+};
+
+export const DEFAULT_ROUTE_ID = "default";
+
+export type ResolvedRoute = { routeId: string; policy: RoutePolicy };
+
+/**
+ * Picks the policy for a request.
+ * Returns null when `strictRouting` is set and no route matches.
+ */
+export function resolveRoute(policy: GuardPolicy, request: { url?: string; method?: string }): ResolvedRoute | null {
+  const route = policy.routes?.find((r) => routeMatches(r.match, request));
+  if (route) return { routeId: route.id, policy: mergeRoutePolicy(policy, route) };
+  if (policy.strictRouting) return null;
+  return { routeId: DEFAULT_ROUTE_ID, policy: defaultRoutePolicy(policy) };
+}
+
+export function defaultRoutePolicy(policy: GuardPolicy): RoutePolicy {
+  const { routes: _routes, strictRouting: _strict, budgets: _budgets, rateLimits: _rateLimits, wallets: _wallets, ...rest } =
+    policy;
+  return rest;
+}
+
+export function mergeRoutePolicy(policy: GuardPolicy, route: PolicyRoute): RoutePolicy {
+  return { ...defaultRoutePolicy(policy), ...route.policy };
+}
+
+export function routeMatches(match: RouteMatch, request: { url?: string; method?: string }): boolean {
+  if (match.method !== undefined) {
+    const methods = (Array.isArray(match.method) ? match.method : [match.method]).map((m) => m.toUpperCase());
+    if (!methods.includes((request.method ?? "GET").toUpperCase())) return false;
+  }
+
+  if (match.origin === undefined && match.path === undefined) return true;
+  if (!request.url) return false;
+
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return false;
+  }
+  if (match.origin !== undefined && originOf(match.origin) !== url.origin) return false;
+  if (match.path !== undefined && !globToRegExp(match.path).test(url.pathname)) return false;
+  return true;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const c = glob[i]!;
+    if (c === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i += 1;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else {
+      source += c.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
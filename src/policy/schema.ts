@@ -0,0 +1,353 @@
+import { deepEqual } from "../utils/json.js";
+
+/**
+ * JSON Schema (draft 2020-12 subset) for `conditions.responseSchema`.
+ *
+ * `requiredJsonFields` only proves a top-level key is non-null; a "partial" response such as
+ * `{ "result": "" }` or `{ "result": 42 }` still passes it. A schema pins types and shapes.
+ *
+ * Supported keywords:
+ * - any: `type`, `enum`, `const`, `allOf`, `anyOf`, `oneOf`, `not`, `$ref` (local `#/$defs/...` only)
+ * - objects: `properties`, `required`, `additionalProperties`, `minProperties`, `maxProperties`
+ * - arrays: `items`, `prefixItems`, `minItems`, `maxItems`, `uniqueItems`
+ * - strings: `minLength`, `maxLength`, `pattern`
+ * - numbers: `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum`, `multipleOf`
+ * - annotations (ignored): `$schema`, `$id`, `$comment`, `$defs`, `title`, `description`, `default`, `examples`
+ *
+ * Any other keyword is rejected when the policy is validated: a silently ignored keyword would look
+ * like a check that is not actually enforced.
+ */
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+export type SchemaViolation = {
+  /** JSON pointer (RFC 6901) into the response body; `""` is the whole body. */
+  path: string;
+  keyword: string;
+  message: string;
+};
+
+type Validator = (value: unknown, path: string, out: SchemaViolation[]) => void;
+
+export type CompiledSchema = {
+  /** Returns every violation found (empty when the value conforms). */
+  validate(value: unknown): SchemaViolation[];
+};
+
+const ANNOTATIONS = new Set(["$schema", "$id", "$comment", "$defs", "title", "description", "default", "examples"]);
+const TYPES = new Set(["null", "boolean", "object", "array", "number", "integer", "string"]);
+
+// Compiled once per schema object: `validatePolicy` compiles, response checks reuse the result.
+const compiled = new WeakMap<object, CompiledSchema>();
+
+/**
+ * Compiles a schema, throwing an Error naming the offending location (`${prefix}/...`) if it uses
+ * unsupported keywords or malformed values.
+ */
+export function compileSchema(schema: JsonSchema, prefix = "responseSchema"): CompiledSchema {
+  if (typeof schema === "object" && schema !== null) {
+    const cached = compiled.get(schema);
+    if (cached) return cached;
+  }
+
+  const root = schema;
+  const refs = new Map<string, Validator>();
+  const resolveRef = (ref: string, at: string): Validator => {
+    const match = /^#\/\$defs\/([^/]+)$/.exec(ref);
+    if (!match) throw new Error(`${at}: only local "#/$defs/<name>" references are supported`);
+    const name = decodePointerToken(match[1]!);
+    const defs = typeof root === "object" && root !== null ? (root.$defs as Record<string, JsonSchema> | undefined) : undefined;
+    if (!defs || !(name in defs)) throw new Error(`${at}: unresolved reference ${ref}`);
+    // Indirect through the map so recursive definitions compile.
+    if (!refs.has(ref)) {
+      let target: Validator | undefined;
+      refs.set(ref, (v, p, out) => target!(v, p, out));
+      target = build(defs[name]!, `${prefix}/$defs/${match[1]}`, resolveRef);
+    }
+    return refs.get(ref)!;
+  };
+
+  if (typeof root === "object" && root !== null && root.$defs !== undefined) {
+    if (!isPlainObject(root.$defs)) throw new Error(`${prefix}/$defs must be an object`);
+    for (const name of Object.keys(root.$defs)) resolveRef(`#/$defs/${encodePointerToken(name)}`, `${prefix}/$defs`);
+  }
+
+  const validator = build(schema, prefix, resolveRef);
+  const result: CompiledSchema = {
+    validate(value) {
+      const out: SchemaViolation[] = [];
+      validator(value, "", out);
+      return out;
+    },
+  };
+  if (typeof schema === "object" && schema !== null) compiled.set(schema, result);
+  return result;
+}
+
+function build(schema: JsonSchema, at: string, resolveRef: (ref: string, at: string) => Validator): Validator {
+  if (schema === true) return () => {};
+  if (schema === false) {
+    return (_v, path, out) => out.push({ path, keyword: "false", message: "no value is allowed here" });
+  }
+  if (!isPlainObject(schema)) throw new Error(`${at} must be a schema object or boolean`);
+
+  const checks: Validator[] = [];
+  const sub = (value: unknown, key: string) => build(value as JsonSchema, `${at}/${key}`, resolveRef);
+
+  for (const [keyword, value] of Object.entries(schema)) {
+    const where = `${at}/${keyword}`;
+    switch (keyword) {
+      case "type": {
+        const types = Array.isArray(value) ? value : [value];
+        if (types.length === 0 || !types.every((t) => typeof t === "string" && TYPES.has(t))) {
+          throw new Error(`${where} must be a JSON type name or an array of them`);
+        }
+        checks.push((v, path, out) => {
+          if (!types.some((t) => hasType(v, t as string))) {
+            out.push({ path, keyword, message: `expected ${types.join(" | ")}, got ${typeOf(v)}` });
+          }
+        });
+        break;
+      }
+      case "enum": {
+        if (!Array.isArray(value)) throw new Error(`${where} must be an array`);
+        checks.push((v, path, out) => {
+          if (!value.some((e) => deepEqual(e, v))) out.push({ path, keyword, message: "value is not one of the allowed values" });
+        });
+        break;
+      }
+      case "const":
+        checks.push((v, path, out) => {
+          if (!deepEqual(value, v)) out.push({ path, keyword, message: `expected ${JSON.stringify(value)}` });
+        });
+        break;
+      case "allOf":
+      case "anyOf":
+      case "oneOf": {
+        if (!Array.isArray(value) || value.length === 0) throw new Error(`${where} must be a non-empty array of schemas`);
+        const branches = value.map((s, i) => sub(s, `${keyword}/${i}`));
+        checks.push((v, path, out) => {
+          const results = branches.map((b) => {
+            const errs: SchemaViolation[] = [];
+            b(v, path, errs);
+            return errs;
+          });
+          const passing = results.filter((r) => r.length === 0).length;
+          if (keyword === "allOf") {
+            for (const r of results) out.push(...r);
+          } else if (keyword === "anyOf" && passing === 0) {
+            out.push({ path, keyword, message: "value does not match any of the schemas" });
+          } else if (keyword === "oneOf" && passing !== 1) {
+            out.push({ path, keyword, message: `value matches ${passing} schemas (expected exactly 1)` });
+          }
+        });
+        break;
+      }
+      case "not": {
+        const inner = sub(value, "not");
+        checks.push((v, path, out) => {
+          const errs: SchemaViolation[] = [];
+          inner(v, path, errs);
+          if (errs.length === 0) out.push({ path, keyword, message: "value must not match the schema" });
+        });
+        break;
+      }
+      case "$ref": {
+        if (typeof value !== "string") throw new Error(`${where} must be a string`);
+        const target = resolveRef(value, where);
+        checks.push(target);
+        break;
+      }
+      case "properties": {
+        if (!isPlainObject(value)) throw new Error(`${where} must be an object`);
+        const props = Object.entries(value).map(([name, s]) => [name, sub(s, `properties/${encodePointerToken(name)}`)] as const);
+        checks.push((v, path, out) => {
+          if (!isPlainObject(v)) return;
+          for (const [name, check] of props) {
+            if (Object.hasOwn(v, name)) check(v[name], `${path}/${encodePointerToken(name)}`, out);
+          }
+        });
+        break;
+      }
+      case "required": {
+        if (!Array.isArray(value) || !value.every((n) => typeof n === "string")) {
+          throw new Error(`${where} must be an array of strings`);
+        }
+        checks.push((v, path, out) => {
+          if (!isPlainObject(v)) return;
+          for (const name of value as string[]) {
+            if (!Object.hasOwn(v, name)) {
+              out.push({ path: `${path}/${encodePointerToken(name)}`, keyword, message: "required property is missing" });
+            }
+          }
+        });
+        break;
+      }
+      case "additionalProperties": {
+        const known = isPlainObject(schema.properties) ? new Set(Object.keys(schema.properties)) : new Set<string>();
+        const check = sub(value, "additionalProperties");
+        checks.push((v, path, out) => {
+          if (!isPlainObject(v)) return;
+          for (const name of Object.keys(v)) {
+            if (!known.has(name)) check(v[name], `${path}/${encodePointerToken(name)}`, out);
+          }
+        });
+        break;
+      }
+      case "minProperties":
+      case "maxProperties": {
+        const limit = nonNegativeInteger(value, where);
+        checks.push((v, path, out) => {
+          if (!isPlainObject(v)) return;
+          const n = Object.keys(v).length;
+          if (keyword === "minProperties" ? n < limit : n > limit) {
+            out.push({ path, keyword, message: `object has ${n} properties (${keyword} ${limit})` });
+          }
+        });
+        break;
+      }
+      case "items": {
+        const offset = Array.isArray(schema.prefixItems) ? schema.prefixItems.length : 0;
+        const check = sub(value, "items");
+        checks.push((v, path, out) => {
+          if (!Array.isArray(v)) return;
+          for (let i = offset; i < v.length; i += 1) check(v[i], `${path}/${i}`, out);
+        });
+        break;
+      }
+      case "prefixItems": {
+        if (!Array.isArray(value)) throw new Error(`${where} must be an array of schemas`);
+        const positional = value.map((s, i) => sub(s, `prefixItems/${i}`));
+        checks.push((v, path, out) => {
+          if (!Array.isArray(v)) return;
+          positional.forEach((check, i) => {
+            if (i < v.length) check(v[i], `${path}/${i}`, out);
+          });
+        });
+        break;
+      }
+      case "minItems":
+      case "maxItems": {
+        const limit = nonNegativeInteger(value, where);
+        checks.push((v, path, out) => {
+          if (!Array.isArray(v)) return;
+          if (keyword === "minItems" ? v.length < limit : v.length > limit) {
+            out.push({ path, keyword, message: `array has ${v.length} items (${keyword} ${limit})` });
+          }
+        });
+        break;
+      }
+      case "uniqueItems": {
+        if (typeof value !== "boolean") throw new Error(`${where} must be a boolean`);
+        if (!value) break;
+        checks.push((v, path, out) => {
+          if (!Array.isArray(v)) return;
+          const dup = v.some((a, i) => v.some((b, j) => j > i && deepEqual(a, b)));
+          if (dup) out.push({ path, keyword, message: "array items are not unique" });
+        });
+        break;
+      }
+      case "minLength":
+      case "maxLength": {
+        const limit = nonNegativeInteger(value, where);
+        checks.push((v, path, out) => {
+          if (typeof v !== "string") return;
+          // Length in code points, as the spec requires.
+          const n = [...v].length;
+          if (keyword === "minLength" ? n < limit : n > limit) {
+            out.push({ path, keyword, message: `string has length ${n} (${keyword} ${limit})` });
+          }
+        });
+        break;
+      }
+      case "pattern": {
+        if (typeof value !== "string") throw new Error(`${where} must be a string`);
+        let re: RegExp;
+        try {
+          re = new RegExp(value, "u");
+        } catch {
+          throw new Error(`${where} is not a valid regular expression`);
+        }
+        checks.push((v, path, out) => {
+          if (typeof v === "string" && !re.test(v)) out.push({ path, keyword, message: `string does not match ${value}` });
+        });
+        break;
+      }
+      case "minimum":
+      case "maximum":
+      case "exclusiveMinimum":
+      case "exclusiveMaximum":
+      case "multipleOf": {
+        if (typeof value !== "number" || !Number.isFinite(value) || (keyword === "multipleOf" && value <= 0)) {
+          throw new Error(`${where} must be a ${keyword === "multipleOf" ? "positive " : ""}number`);
+        }
+        checks.push((v, path, out) => {
+          if (typeof v !== "number") return;
+          const ok =
+            keyword === "minimum" ? v >= value
+            : keyword === "maximum" ? v <= value
+            : keyword === "exclusiveMinimum" ? v > value
+            : keyword === "exclusiveMaximum" ? v < value
+            : isMultipleOf(v, value);
+          if (!ok) out.push({ path, keyword, message: `${v} violates ${keyword} ${value}` });
+        });
+        break;
+      }
+      default:
+        if (!ANNOTATIONS.has(keyword)) throw new Error(`${where}: unsupported keyword`);
+    }
+  }
+
+  return (v, path, out) => {
+    for (const check of checks) check(v, path, out);
+  };
+}
+
+function hasType(v: unknown, type: string): boolean {
+  switch (type) {
+    case "null":
+      return v === null;
+    case "boolean":
+      return typeof v === "boolean";
+    case "object":
+      return isPlainObject(v);
+    case "array":
+      return Array.isArray(v);
+    case "number":
+      return typeof v === "number";
+    case "integer":
+      return typeof v === "number" && Number.isInteger(v);
+    default:
+      return typeof v === "string";
+  }
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function nonNegativeInteger(value: unknown, where: string): number {
+  if (!Number.isInteger(value) || (value as number) < 0) throw new Error(`${where} must be a non-negative integer`);
+  return value as number;
+}
+
+function encodePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function decodePointerToken(token: string): string {
+  return token.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+/** `multipleOf` with a tolerance: binary floating point makes e.g. `0.3 / 0.1` 2.9999999999999996. */
+function isMultipleOf(v: number, divisor: number): boolean {
+  const quotient = v / divisor;
+  if (!Number.isFinite(quotient)) return false;
+  // A few ulps of the quotient: enough for rounding error, far too little to accept a real fraction.
+  return Math.abs(quotient - Math.round(quotient)) <= 4 * Number.EPSILON * Math.max(1, Math.abs(quotient));
+}
@@ -0,0 +1,72 @@
+import { AssetRegistry } from "./assets.js";
+import { scopedBudgetId, scopedBudgetKey, type ApplicableBudget, type BudgetLedger } from "./budget.js";
+import type { GuardPolicy } from "./policy.js";
+import { DEFAULT_ROUTE_ID, defaultRoutePolicy, mergeRoutePolicy, type RoutePolicy } from "./router.js";
+import { walletBudget } from "./wallets.js";
+
+/**
+ * Everything needed to evaluate one (routed) policy: the effective policy plus its derived state.
+ * Routes without their own `budget` share the default scope's budget (same `budgetKey`).
+ */
+export type PolicyScope = {
+  routeId: string;
+  policy: RoutePolicy;
+  assets: AssetRegistry;
+  budgetKey?: string;
+};
+
+/**
+ * A policy with its scopes, swapped as one unit by `updatePolicy`. Each request keeps the one that was
+ * active when it started, so an update never changes the rules halfway through a payment.
+ */
+export type ActivePolicy = { policy: GuardPolicy; scopes: Map<string, PolicyScope> };
+
+export function activatePolicy(policy: GuardPolicy): ActivePolicy {
+  return { policy, scopes: buildPolicyScopes(policy) };
+}
+
+/** One scope per route id, plus `"default"`. */
+export function buildPolicyScopes(policy: GuardPolicy): Map<string, PolicyScope> {
+  const scopes = new Map<string, PolicyScope>();
+  const defaultPolicy = defaultRoutePolicy(policy);
+  scopes.set(DEFAULT_ROUTE_ID, {
+    routeId: DEFAULT_ROUTE_ID,
+    policy: defaultPolicy,
+    assets: AssetRegistry.forPolicy(defaultPolicy),
+    budgetKey: defaultPolicy.budget ? DEFAULT_ROUTE_ID : undefined,
+  });
+  for (const route of policy.routes ?? []) {
+    const merged = mergeRoutePolicy(policy, route);
+    scopes.set(route.id, {
+      routeId: route.id,
+      policy: merged,
+      assets: AssetRegistry.forPolicy(merged),
+      budgetKey: route.policy.budget ? `route:${route.id}` : defaultPolicy.budget ? DEFAULT_ROUTE_ID : undefined,
+    });
+  }
+  return scopes;
+}
+
+/**
+ * Budgets a payment must fit in: the scope's `budget`, every scoped budget (global / per-origin /
+ * per-endpoint) instance for the request URL, and the budget of the wallet paying, if any.
+ */
+export function applicableBudgets(
+  policy: GuardPolicy,
+  scope: PolicyScope,
+  ledger: BudgetLedger,
+  url: string | undefined,
+  wallet?: string,
+): ApplicableBudget[] {
+  const targets: ApplicableBudget[] = [];
+  if (scope.budgetKey && scope.policy.budget) {
+    targets.push({ id: scope.budgetKey, key: scope.budgetKey, budget: ledger.get(scope.budgetKey, scope.policy.budget) });
+  }
+  for (const b of policy.budgets ?? []) {
+    const key = scopedBudgetKey(b, url);
+    targets.push({ id: scopedBudgetId(b), key, budget: ledger.get(key, b) });
+  }
+  const walletTarget = walletBudget(policy.wallets, wallet, ledger);
+  if (walletTarget) targets.push(walletTarget);
+  return targets;
+}
@@ -0,0 +1,81 @@
+import type { Network, PaymentRequirements } from "@x402/core/types";
+
+import type { ApplicableBudget, BudgetLedger } from "./budget.js";
+import type { BudgetWindowPolicy } from "./policy.js";
+import { usdToUsdcBaseUnits } from "./policy.js";
+
+/**
+ * Wallet routing: which of several signers (`wallets` in the guard config) pays for a requirement.
+ *
+ * Rules are tried in order and the first wallet that can sign the requirement (its configured
+ * networks and schemes) and whose rule allows it pays. Without `policy.wallets`, configured wallets
+ * are tried in config order with no extra limits; with it, only the listed wallets pay.
+ *
+ * A requirement no wallet may pay is rejected as `NO_WALLET` (fail closed). A wallet whose budget is
+ * exhausted does not hand over to the next one: the payment is blocked, so a tier's limit cannot be
+ * bypassed by spilling into a bigger wallet.
+ */
+export type WalletPolicy = {
+  /** Id of a wallet in the guard config; must be unique. */
+  id: string;
+  /** Networks this wallet may pay on (CAIP-2 ids or patterns such as `eip155:*`). Default: any it can sign for. */
+  networks?: Network[];
+  /** Largest single payment this wallet may make (USD). Larger ones go to a later wallet, if any. */
+  maxPerPaymentUsd?: number;
+  /** Rolling budget of this wallet alone, on top of every other applicable budget. */
+  budget?: BudgetWindowPolicy;
+};
+
+/** What routing needs to know about a configured wallet. */
+export type WalletCapabilities = {
+  id: string;
+  /** CAIP-2 ids or patterns such as `eip155:*`. */
+  networks: Network[];
+  schemes: string[];
+};
+
+export const DEFAULT_WALLET_SCHEMES = ["exact"];
+
+/**
+ * Id of the wallet that pays `requirement`, or undefined if none may.
+ * `usdMicros` is the requirement's value (null if it cannot be valued: no `maxPerPaymentUsd` rule passes it).
+ */
+export function routeWallet(
+  wallets: WalletCapabilities[],
+  rules: WalletPolicy[] | undefined,
+  requirement: Pick<PaymentRequirements, "network" | "scheme">,
+  usdMicros: bigint | null,
+): string | undefined {
+  const order: WalletPolicy[] = rules ?? wallets.map(({ id }) => ({ id }));
+  for (const rule of order) {
+    const wallet = wallets.find((w) => w.id === rule.id);
+    if (!wallet || !wallet.schemes.includes(requirement.scheme)) continue;
+    if (!wallet.networks.some((n) => networkMatches(n, requirement.network))) continue;
+    if (rule.networks && !rule.networks.some((n) => networkMatches(n, requirement.network))) continue;
+    if (rule.maxPerPaymentUsd !== undefined && (usdMicros === null || usdMicros > usdToUsdcBaseUnits(rule.maxPerPaymentUsd))) {
+      continue;
+    }
+    return wallet.id;
+  }
+  return undefined;
+}
+
+/** The budget of wallet `id` (key `wallet:<id>`), if its rule sets one. */
+export function walletBudget(
+  rules: WalletPolicy[] | undefined,
+  id: string | undefined,
+  ledger: BudgetLedger,
+): ApplicableBudget | undefined {
+  const budget = id !== undefined ? rules?.find((r) => r.id === id)?.budget : undefined;
+  if (!budget) return undefined;
+  const key = `wallet:${id}`;
+  return { id: key, key, budget: ledger.get(key, budget) };
+}
+
+/** x402 network patterns: `*` matches any run of characters, e.g. `eip155:*`. */
+export function networkMatches(pattern: string, network: string): boolean {
+  if (pattern === network) return true;
+  if (!pattern.includes("*")) return false;
+  const source = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${source}$`).test(network);
+}
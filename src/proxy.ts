@@ -0,0 +1,191 @@
+import { timingSafeEqual } from "node:crypto";
+
+import express, { type Request, type Response } from "express";
+
+import type { X402Guard } from "./guard.js";
+import { GuardError, type GuardErrorCode } from "./utils/errors.js";
+
+/**
+ * Local HTTP forward proxy: every request it receives is sent through an `X402Guard`, so agents in
+ * any language (Python, curl, ...) get the same guardrails as TypeScript callers.
+ *
+ * Two ways to address a target:
+ * - path form: `http://127.0.0.1:8402/https://api.example.com/v1/search?q=x` (works for HTTPS targets)
+ * - absolute form, i.e. the proxy set as `HTTP_PROXY` / `curl -x`: plain `http://` targets only, since
+ *   HTTPS through a proxy is an opaque `CONNECT` tunnel the guard cannot see into (not supported)
+ *
+ * Guard denials become JSON errors, `{ "error": { "code", "explanation", "details" } }`, with the
+ * code also in the `X-Guard-Code` header. `GET /guard/status` returns `guard.status()`.
+ *
+ * Bind it to localhost: anyone who can reach the proxy can spend the guard's wallet. Web pages open in
+ * a local browser can reach it too, so requests a browser sent (`Origin` / `Sec-Fetch-Site` headers)
+ * and requests whose `Host` is neither a loopback name, an allowed host nor (absolute form only) the
+ * target's host are refused with 403 (DNS rebinding). `token` additionally requires every caller to
+ * send `X-Guard-Token`; the CLI refuses a non-loopback listen address without one.
+ */
+export type GuardProxyOptions = {
+  /** Largest request body forwarded (Express size string). Default: `"10mb"`. */
+  bodyLimit?: string;
+  /** Shared secret every request must carry in `X-Guard-Token` (not forwarded upstream). */
+  token?: string;
+  /** `Host` names accepted besides loopback ones (`localhost`, `127.0.0.1`, `[::1]`), e.g. a LAN address. */
+  allowedHosts?: string[];
+};
+
+export const GUARD_STATUS_PATH = "/guard/status";
+
+/** Request headers that describe the client→proxy connection, not the request itself. */
+const HOP_BY_HOP = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "host",
+  "content-length",
+  "x-guard-token",
+]);
+
+export function createGuardProxy(guard: X402Guard, options: GuardProxyOptions = {}): express.Express {
+  const app = express();
+  app.disable("x-powered-by");
+  app.use(express.raw({ type: () => true, limit: options.bodyLimit ?? "10mb" }));
+
+  const allowedHosts = new Set((options.allowedHosts ?? []).map((h) => h.toLowerCase()));
+
+  app.use(async (req: Request, res: Response) => {
+    const refused = refusal(req, options.token, allowedHosts);
+    if (refused) {
+      sendJson(res, 403, { error: refused });
+      return;
+    }
+
+    const target = targetOf(req.originalUrl);
+    if (!target) {
+      if (req.method === "GET" && req.path === GUARD_STATUS_PATH) {
+        sendJson(res, 200, guard.status());
+        return;
+      }
+      sendJson(res, 400, {
+        error: { code: "PROXY_BAD_TARGET", explanation: `Expected an absolute http(s) URL, e.g. /https://api.example.com/path.` },
+      });
+      return;
+    }
+
+    let upstream: globalThis.Response;
+    try {
+      upstream = await guard.fetch(target, {
+        method: req.method,
+        headers: forwardedHeaders(req),
+        body: Buffer.isBuffer(req.body) && req.body.length > 0 ? new Uint8Array(req.body) : undefined,
+      });
+    } catch (e) {
+      if (e instanceof GuardError) {
+        sendGuardError(res, e);
+        return;
+      }
+      sendJson(res, 502, {
+        error: { code: "PROXY_UPSTREAM_FAILED", explanation: e instanceof Error ? e.message : String(e) },
+      });
+      return;
+    }
+
+    res.status(upstream.status);
+    upstream.headers.forEach((value, name) => {
+      // The body below is already decoded and re-framed.
+      if (!HOP_BY_HOP.has(name) && name !== "content-encoding") res.setHeader(name, value);
+    });
+    res.send(Buffer.from(await upstream.arrayBuffer()));
+  });
+
+  return app;
+}
+
+/** HTTP status a denial is reported with. */
+export function proxyStatusOf(code: GuardErrorCode): number {
+  switch (code) {
+    case "PAYMENT_BLOCKED_RATE_LIMIT":
+      return 429;
+    case "PAYMENT_BLOCKED_CIRCUIT_OPEN":
+      return 503;
+    case "RESPONSE_CONDITION_FAILED":
+      return 502;
+    case "POLICY_INVALID":
+      return 500;
+    default:
+      return 403;
+  }
+}
+
+function sendGuardError(res: Response, e: GuardError): void {
+  const retryAfterMs = e.details?.retryAfterMs;
+  if (typeof retryAfterMs === "number") res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1_000)));
+  res.setHeader("X-Guard-Code", e.code);
+  sendJson(res, proxyStatusOf(e.code), { error: { code: e.code, explanation: e.explanation, details: e.details } });
+}
+
+function sendJson(res: Response, status: number, body: unknown): void {
+  res
+    .status(status)
+    .type("application/json")
+    .send(JSON.stringify(body, (_k, v) => (typeof v === "bigint" ? v.toString() : v)));
+}
+
+/** Why a caller may not use the proxy at all (cross-site browser request, rebound host, bad token). */
+function refusal(
+  req: Request,
+  token: string | undefined,
+  allowedHosts: Set<string>,
+): { code: string; explanation: string } | undefined {
+  if (req.headers.origin !== undefined || req.headers["sec-fetch-site"] !== undefined) {
+    return { code: "PROXY_FORBIDDEN_ORIGIN", explanation: "Requests sent by a browser are refused: a web page must not spend the wallet." };
+  }
+  // Every form is checked. An absolute-form request (`HTTP_PROXY`) names its target's host instead.
+  const absolute = /^https?:\/\//i.test(req.originalUrl) ? new URL(req.originalUrl).host.toLowerCase() : undefined;
+  const host = req.headers.host;
+  if (!isLoopbackHost(host) && !allowedHosts.has(hostName(host)) && (absolute === undefined || host?.toLowerCase() !== absolute)) {
+    return { code: "PROXY_FORBIDDEN_HOST", explanation: "Host is not a loopback address or an allowed host." };
+  }
+  if (token !== undefined && !sameSecret(req.headers["x-guard-token"], token)) {
+    return { code: "PROXY_UNAUTHORIZED", explanation: "Missing or wrong X-Guard-Token." };
+  }
+  return undefined;
+}
+
+/** `localhost`, `127.x.x.x` or `[::1]` (a `Host` header or a listen address, with or without port). */
+export function isLoopbackHost(host: string | undefined): boolean {
+  const name = hostName(host);
+  return name === "localhost" || name === "[::1]" || name === "::1" || /^127(\.\d{1,3}){3}$/.test(name);
+}
+
+function hostName(host: string | undefined): string {
+  const h = (host ?? "").toLowerCase();
+  // A bare IPv6 address (`::1`) has no port to strip.
+  return h.startsWith("[") || h.split(":").length <= 2 ? h.replace(/:\d+$/, "") : h;
+}
+
+function sameSecret(value: string | string[] | undefined, secret: string): boolean {
+  if (typeof value !== "string") return false;
+  const a = Buffer.from(value);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function targetOf(url: string): string | undefined {
+  if (/^https?:\/\//i.test(url)) return url;
+  if (/^\/https?:\/\//i.test(url)) return url.slice(1);
+  return undefined;
+}
+
+/** A plain object: `wrapFetchWithPayment` spreads `init.headers`, which would drop a `Headers` instance. */
+function forwardedHeaders(req: Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined || HOP_BY_HOP.has(name)) continue;
+    headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return headers;
+}
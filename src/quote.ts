@@ -0,0 +1,83 @@
+import { x402HTTPClient, type x402Client } from "@x402/fetch";
+import type { PaymentRequired, PaymentRequirements } from "@x402/core/types";
+
+import type { RequirementRejection } from "./policy/requirements.js";
+import type { DecisionWouldDeny } from "./receipt.js";
+import { GuardError } from "./utils/errors.js";
+
+/**
+ * Result of `guard.quote()`: what paying for a request would look like, without paying.
+ *
+ * The request is sent once without a payment; the 402 offer is run through the same requirement
+ * evaluation and budget check as `fetch()`. Nothing is signed, reserved or recorded. Shadow-evaluated
+ * policies are quoted too, reported like in decision records (`wouldDeny`, `shadow`).
+ *
+ * Amounts are USD micros (1e-6 USD) as decimal strings; budget figures are in budget base units.
+ */
+export type GuardQuote = {
+  request: { url?: string; method?: string };
+  /** Policy route the request resolved to. */
+  route: string;
+  /** HTTP status of the unpaid request. */
+  status: number;
+  /** False if the server answered without asking for payment; the rest of the quote is then empty. */
+  paymentRequired: boolean;
+  x402Version?: number;
+  /** Every option the server offered, in its order. `usdMicros` is absent for options that cannot be valued. */
+  options: QuoteOption[];
+  /** The option the client would sign: the first one left after the guard's policy. */
+  selected?: QuoteOption;
+  /** Multi-wallet guards: id of the wallet that would pay `selected`. */
+  wallet?: string;
+  /** Options the policy removed, with their reason. */
+  rejected: RequirementRejection[];
+  /** Room left in every budget that applies, before `selected` is paid. */
+  budgets: QuoteBudget[];
+  /** True if `fetch()` would get past these checks right now (other checks, e.g. rate limits, may still block). */
+  payable: boolean;
+  /** Why not: the denial `fetch()` would throw. */
+  blocked?: DecisionWouldDeny;
+  /** `"shadow"` when the guard only observes its policy (`enforcement: "shadow"`); `payable` is then always true. */
+  enforcement?: "shadow";
+  /** In shadow mode: the check of the observed policy that would block this request. */
+  wouldDeny?: DecisionWouldDeny;
+  /** Outcome of `shadowPolicy` for this request. */
+  shadow?: { route?: string; wouldDeny?: DecisionWouldDeny };
+};
+
+export type QuoteOption = {
+  requirement: PaymentRequirements;
+  usdMicros?: string;
+};
+
+export type QuoteBudget = {
+  id: string;
+  key: string;
+  windowMs: number;
+  limitBaseUnits: string;
+  committedBaseUnits: string;
+  reservedBaseUnits: string;
+  remainingBaseUnits: string;
+};
+
+/**
+ * Reads the x402 offer of a 402 response (`PAYMENT-REQUIRED` header, or a v1 JSON body) the way
+ * `wrapFetchWithPayment` does. Consumes the body.
+ */
+export async function readPaymentRequired(client: x402Client, res: Response): Promise<PaymentRequired> {
+  let body: unknown;
+  try {
+    const text = await res.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    // The offer may be in the header only.
+  }
+  try {
+    return new x402HTTPClient(client).getPaymentRequiredResponse((name) => res.headers.get(name), body);
+  } catch (e) {
+    throw new GuardError("PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS", "Cannot parse the payment requirements of the 402 response.", {
+      status: res.status,
+      error: e instanceof Error ? e.message : String(e),
+    });
+  }
+}
@@ -1,6 +1,113 @@
 import type { PaymentRequirements } from "@x402/core/types";
+import type { RequirementRejection } from "./policy/requirements.js";
+import type { RetryAttemptAudit } from "./retry.js";
 import type { GuardErrorCode } from "./utils/errors.js";
 
+/**
+ * Budget window state as seen by one request.
+ *
+ * - `committed*`: spend already recorded in the window
+ * - `reserved*`: holds taken by in-flight requests (not yet signed or released)
+ * - `total*`: committed + reserved (what the limit is checked against)
+ *
+ * "Before" is captured when this request takes its hold; "after" once its payment is committed.
+ */
+export type DecisionBudgetAudit = {
+  /** Which budget: `"default"`, `"route:<id>"` or a scoped `budgets[].id`. */
+  id?: string;
+  /** Budget instance (e.g. the origin for an origin-scoped budget). */
+  key?: string;
+  windowMs?: number;
+  totalBeforeBaseUnits?: string;
+  totalAfterBaseUnits?: string;
+  committedBeforeBaseUnits?: string;
+  reservedBeforeBaseUnits?: string;
+  committedAfterBaseUnits?: string;
+  reservedAfterBaseUnits?: string;
+  limitBaseUnits?: string;
+};
+
+export type DecisionPaymentAudit = {
+  selected?: Pick<PaymentRequirements, "scheme" | "network" | "amount" | "asset" | "payTo">;
+  rejected?: RequirementRejection[];
+  /** Multi-wallet guards: the wallet routed to pay `selected`. */
+  wallet?: { id: string; address: string };
+  /**
+   * USD micros of the payment this request signed; absent if nothing was signed. Set on denials too:
+   * a response rejected by `conditions` was still paid for.
+   */
+  paidUsdMicros?: string;
+  /**
+   * Set when a payment was signed: `true` if the server kept it (it answered with anything but 402, or
+   * its settlement response says so). A denial with `spent: true` means money went out for a response
+   * the guard then rejected.
+   */
+  spent?: boolean;
+  /** The server's settlement response (`PAYMENT-RESPONSE` header), when it sent one. */
+  settlement?: DecisionSettlementAudit;
+  /** The route's own budget (`policy.budget`), kept for compatibility. */
+  budget?: DecisionBudgetAudit;
+  /** Every budget that applied to this request, including the route budget and scoped `budgets`. */
+  budgets?: DecisionBudgetAudit[];
+};
+
+/** Settlement of a signed payment as reported by the resource server; useful for disputes and refunds. */
+export type DecisionSettlementAudit = {
+  success: boolean;
+  /** Transaction hash. */
+  transaction: string;
+  network: string;
+  payer?: string;
+  errorReason?: string;
+};
+
+/**
+ * One changed policy value; `before` is absent for added values and `after` for removed ones.
+ * Price callbacks show as `"[function]"`.
+ */
+export type DecisionPolicyChange = {
+  /** E.g. `budget.windowMs`, `routes[0].policy.maxPerPaymentUsd`. */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+/** Circuit breaker state of the request's endpoint, after this decision was applied. */
+export type DecisionCircuitAudit = {
+  key: string;
+  state: "closed" | "open" | "half-open";
+  failures: number;
+  openedAt?: string;
+};
+
+export type DecisionApprovalAudit = {
+  decision: "approve" | "deny" | "timeout";
+  /** Who approved or denied (as reported by `requestApproval`). */
+  approver?: string;
+  /** Approver's note (approve) or reason (deny). */
+  reason?: string;
+  requestedAt: string;
+  decidedAt: string;
+};
+
+/** A denial that was observed but not enforced (shadow evaluation). */
+export type DecisionWouldDeny = {
+  code: GuardErrorCode;
+  explanation: string;
+  details?: Record<string, unknown>;
+};
+
+/**
+ * Summary of one `fetchWithRetry()` call. The attempts were already emitted as their own records
+ * (carrying `attempt.id === id`), so spend totals must not count this record again.
+ */
+export type DecisionRetryAudit = {
+  id: string;
+  attempts: RetryAttemptAudit[];
+  paidAttempts: number;
+  totalPaidUsdMicros: string;
+};
+
 /**
  * GuardDecision is the structured "receipt" emitted by x402-guard.
  *
@@ -11,7 +118,8 @@ import type { GuardErrorCode } from "./utils/errors.js";
  *
  * Privacy note:
  * - Decision records can include `payTo` addresses and token contract addresses (`asset`).
- * - If you ship these to third-party logging, consider redaction or hashing.
+ * - If you ship these to third-party logging, consider redaction or hashing; `FileAuditLog` can do
+ *   either per field (`fields: { payTo: "hash", asset: "hash" }`).
  */
 export type GuardDecision =
   | {
@@ -21,19 +129,24 @@ export type GuardDecision =
         url?: string;
         method?: string;
       };
-      payment?: {
-        selected?: Pick<PaymentRequirements, "scheme" | "network" | "amount" | "asset" | "payTo">;
-        rejected?: Array<{
-          requirement: Pick<PaymentRequirements, "scheme" | "network" | "amount" | "asset" | "payTo">;
-          reason: "ABOVE_PER_PAYMENT_CAP";
-        }>;
-        budget?: {
-          windowMs?: number;
-          totalBeforeBaseUnits?: string;
-          totalAfterBaseUnits?: string;
-          limitBaseUnits?: string;
-        };
-      };
+      /** Policy route that handled the request (`"default"` when no route matched). */
+      route?: string;
+      payment?: DecisionPaymentAudit;
+      circuit?: DecisionCircuitAudit;
+      /** Set on each attempt made by `fetchWithRetry()`; `id` links it to the aggregate record. */
+      attempt?: { id: string; index: number };
+      /** Human approval of a payment above `policy.approval.thresholdUsd`. */
+      approval?: DecisionApprovalAudit;
+      /** `"shadow"` when the guard only observes its policy (`enforcement: "shadow"`). */
+      enforcement?: "shadow";
+      /** In shadow mode: the check that would have blocked this request. */
+      wouldDeny?: DecisionWouldDeny;
+      /** Outcome of `shadowPolicy` for this request. */
+      shadow?: { route?: string; wouldDeny?: DecisionWouldDeny };
+      /** Idempotency key of the request (`derived`: hashed from method + URL + body). */
+      idempotency?: { key: string; derived: boolean; repeatAllowed?: boolean };
+      /** Set only on the aggregate record `fetchWithRetry()` emits after its last attempt. */
+      retry?: DecisionRetryAudit;
       response?: {
         status: number;
         latencyMs: number;
@@ -46,22 +159,41 @@ export type GuardDecision =
         url?: string;
         method?: string;
       };
+      /** Policy route that handled the request (`"default"` when no route matched). */
+      route?: string;
       code: GuardErrorCode;
       explanation: string;
       details?: Record<string, unknown>;
-      payment?: {
-        selected?: Pick<PaymentRequirements, "scheme" | "network" | "amount" | "asset" | "payTo">;
-        rejected?: Array<{
-          requirement: Pick<PaymentRequirements, "scheme" | "network" | "amount" | "asset" | "payTo">;
-          reason: "ABOVE_PER_PAYMENT_CAP";
-        }>;
-        budget?: {
-          windowMs?: number;
-          totalBeforeBaseUnits?: string;
-          totalAfterBaseUnits?: string;
-          limitBaseUnits?: string;
-        };
-      };
+      payment?: DecisionPaymentAudit;
+      circuit?: DecisionCircuitAudit;
+      /** Set on each attempt made by `fetchWithRetry()`; `id` links it to the aggregate record. */
+      attempt?: { id: string; index: number };
+      /** Human approval of a payment above `policy.approval.thresholdUsd`. */
+      approval?: DecisionApprovalAudit;
+      /** `"shadow"` when the guard only observes its policy (`enforcement: "shadow"`). */
+      enforcement?: "shadow";
+      /** In shadow mode: the check that would have blocked this request. */
+      wouldDeny?: DecisionWouldDeny;
+      /** Outcome of `shadowPolicy` for this request. */
+      shadow?: { route?: string; wouldDeny?: DecisionWouldDeny };
+      /** Idempotency key of the request (`derived`: hashed from method + URL + body). */
+      idempotency?: { key: string; derived: boolean; repeatAllowed?: boolean };
+      /** Set only on the aggregate record `fetchWithRetry()` emits after its last attempt. */
+      retry?: DecisionRetryAudit;
     };
 
+/**
+ * Emitted (`onPolicyChange`) when `guard.updatePolicy()` replaces the policy. Write it to the same
+ * audit log as decisions (`FileAuditLog.write` accepts both) so the log shows which policy each
+ * decision was made under.
+ */
+export type PolicyChangedEvent = {
+  event: "policy_changed";
+  at: string;
+  /** Where the new policy came from (e.g. the watched file), if the caller said. */
+  source?: string;
+  changes: DecisionPolicyChange[];
+};
 
+/** Everything the guard emits for auditing. */
+export type GuardAuditEvent = GuardDecision | PolicyChangedEvent;
@@ -0,0 +1,333 @@
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+
+import type { GuardDecision } from "./receipt.js";
+import { endpointOf, originOf } from "./utils/url.js";
+
+/**
+ * Spend reporting over a stream of `GuardDecision` records (a decision log, or `onDecision` live).
+ *
+ * Records are grouped by any combination of dimensions and summed per group:
+ * - spend (`payment.paidUsdMicros`, unless the server refused the payment: `payment.spent === false`),
+ *   including money paid for responses that were then rejected (a spent denial, e.g.
+ *   `RESPONSE_CONDITION_FAILED`) — "paid for junk" as opposed to "blocked before paying"
+ * - allow / deny counts, condition failures, and denials per reason code
+ *
+ * The aggregate record `fetchWithRetry()` emits (`retry`) is not counted: each attempt already has its
+ * own record. It is used for reconciliation instead — its `totalPaidUsdMicros` must equal the sum of the
+ * attempt records that share its id, or the log is missing attempts. A retried call is kept or dropped
+ * by `since` / `until` as a whole, by the time of its aggregate record, so a boundary inside the call
+ * does not split it. Attempts whose aggregate never arrives are filtered by their own time.
+ */
+export type ReportDimension = "origin" | "endpoint" | "route" | "payTo" | "network" | "time";
+
+export type ReportOptions = {
+  groupBy: ReportDimension[];
+  /** Width of the `time` dimension's buckets (aligned to the Unix epoch, i.e. UTC). Default: 1 day. */
+  bucketMs?: number;
+  /** Only records at or after this time. */
+  since?: Date;
+  /** Only records before this time. */
+  until?: Date;
+};
+
+/** Amounts are USD micros (1e-6 USD) as decimal strings. */
+export type ReportRow = {
+  /** One value per `groupBy` dimension; `time` is the bucket start as an ISO string. */
+  key: Record<string, string>;
+  requests: number;
+  allowed: number;
+  denied: number;
+  paidCount: number;
+  spentUsdMicros: string;
+  /** Paid for, then denied (the response failed `conditions`). */
+  rejectedAfterPaymentCount: number;
+  rejectedAfterPaymentUsdMicros: string;
+  conditionFailures: number;
+  denialsByCode: Record<string, number>;
+};
+
+export type ReportReconciliation = {
+  retryCalls: number;
+  /** `fetchWithRetry()` calls whose aggregate total does not match their attempt records. */
+  mismatched: Array<{ id: string; aggregateUsdMicros: string; attemptsUsdMicros: string }>;
+};
+
+export type SpendReportJson = {
+  groupBy: ReportDimension[];
+  bucketMs: number;
+  rows: ReportRow[];
+  totals: Omit<ReportRow, "key">;
+  reconciliation: ReportReconciliation;
+};
+
+export const DEFAULT_REPORT_BUCKET_MS = 24 * 60 * 60 * 1000;
+
+type Totals = {
+  requests: number;
+  allowed: number;
+  denied: number;
+  paidCount: number;
+  spent: bigint;
+  rejectedAfterPaymentCount: number;
+  rejectedAfterPayment: bigint;
+  conditionFailures: number;
+  denialsByCode: Map<string, number>;
+};
+
+export class SpendReport {
+  private readonly groupBy: ReportDimension[];
+  private readonly bucketMs: number;
+  private readonly since?: number;
+  private readonly until?: number;
+  private readonly groups = new Map<string, { key: Record<string, string>; totals: Totals }>();
+  private readonly totals = emptyTotals();
+  private readonly attemptsPaid = new Map<string, bigint>();
+  private readonly retries = new Map<string, bigint>();
+  /** Attempt records waiting for their aggregate, which decides whether they are in range. */
+  private readonly pendingAttempts = new Map<string, GuardDecision[]>();
+
+  constructor(options: ReportOptions) {
+    this.groupBy = options.groupBy;
+    this.bucketMs = options.bucketMs ?? DEFAULT_REPORT_BUCKET_MS;
+    if (!Number.isFinite(this.bucketMs) || this.bucketMs <= 0) throw new Error("bucketMs must be > 0");
+    this.since = options.since?.getTime();
+    this.until = options.until?.getTime();
+  }
+
+  add(record: GuardDecision): void {
+    if (record.retry) {
+      const attempts = this.pendingAttempts.get(record.retry.id) ?? [];
+      this.pendingAttempts.delete(record.retry.id);
+      if (!this.inRange(record)) return;
+      this.retries.set(record.retry.id, BigInt(record.retry.totalPaidUsdMicros));
+      for (const attempt of attempts) this.count(attempt);
+      return;
+    }
+    if (record.attempt) {
+      const attempts = this.pendingAttempts.get(record.attempt.id);
+      if (attempts) attempts.push(record);
+      else this.pendingAttempts.set(record.attempt.id, [record]);
+      return;
+    }
+    if (this.inRange(record)) this.count(record);
+  }
+
+  toJSON(): SpendReportJson {
+    // The aggregates of these calls are not in the log (yet).
+    for (const attempts of this.pendingAttempts.values()) {
+      for (const attempt of attempts) if (this.inRange(attempt)) this.count(attempt);
+    }
+    this.pendingAttempts.clear();
+
+    const rows = [...this.groups.values()]
+      .map(({ key, totals }) => ({ key, ...rowOf(totals) }))
+      .sort((a, b) => compareMicros(b.spentUsdMicros, a.spentUsdMicros) || compareKeys(a.key, b.key, this.groupBy));
+
+    const mismatched: ReportReconciliation["mismatched"] = [];
+    for (const [id, aggregate] of this.retries) {
+      const attempts = this.attemptsPaid.get(id) ?? 0n;
+      if (attempts !== aggregate) {
+        mismatched.push({ id, aggregateUsdMicros: aggregate.toString(), attemptsUsdMicros: attempts.toString() });
+      }
+    }
+
+    return {
+      groupBy: this.groupBy,
+      bucketMs: this.bucketMs,
+      rows,
+      totals: rowOf(this.totals),
+      reconciliation: { retryCalls: this.retries.size, mismatched },
+    };
+  }
+
+  private inRange(record: GuardDecision): boolean {
+    const at = Date.parse(record.at);
+    return (this.since === undefined || at >= this.since) && (this.until === undefined || at < this.until);
+  }
+
+  private count(record: GuardDecision): void {
+    const at = Date.parse(record.at);
+    const payment = record.payment;
+    const signed = payment?.paidUsdMicros !== undefined ? BigInt(payment.paidUsdMicros) : undefined;
+    const paid = payment?.spent !== false ? signed : undefined;
+    // The aggregate sums what each attempt signed, whether or not the server kept it.
+    if (record.attempt) {
+      this.attemptsPaid.set(record.attempt.id, (this.attemptsPaid.get(record.attempt.id) ?? 0n) + (signed ?? 0n));
+    }
+
+    const key = this.keyOf(record, at);
+    const id = JSON.stringify(this.groupBy.map((d) => key[d]));
+    let group = this.groups.get(id);
+    if (!group) {
+      group = { key, totals: emptyTotals() };
+      this.groups.set(id, group);
+    }
+    for (const t of [group.totals, this.totals]) accumulate(t, record, paid);
+  }
+
+  private keyOf(record: GuardDecision, at: number): Record<string, string> {
+    const url = record.request.url;
+    const selected = record.payment?.selected;
+    const key: Record<string, string> = {};
+    for (const d of this.groupBy) {
+      switch (d) {
+        case "origin":
+          key[d] = (url && originOf(url)) ?? "unknown";
+          break;
+        case "endpoint":
+          key[d] = (url && endpointOf(url)) ?? "unknown";
+          break;
+        case "route":
+          key[d] = record.route ?? "unknown";
+          break;
+        case "payTo":
+          key[d] = selected?.payTo ?? "none";
+          break;
+        case "network":
+          key[d] = selected?.network ?? "none";
+          break;
+        case "time":
+          key[d] = Number.isFinite(at) ? new Date(Math.floor(at / this.bucketMs) * this.bucketMs).toISOString() : "unknown";
+          break;
+      }
+    }
+    return key;
+  }
+}
+
+/** Builds a report from any (async) iterable of records, e.g. `readDecisionLog(path)`. */
+export async function buildSpendReport(
+  records: Iterable<GuardDecision> | AsyncIterable<GuardDecision>,
+  options: ReportOptions,
+): Promise<SpendReportJson> {
+  const report = new SpendReport(options);
+  for await (const record of records) report.add(record);
+  return report.toJSON();
+}
+
+/**
+ * Reads decision records from a JSONL file: either `FileAuditLog` entries (`{ seq, hash, record }`)
+ * or bare records (one `JSON.stringify(record)` per line, as `onDecision` examples log them).
+ * Blank and unparseable lines are skipped.
+ */
+export async function* readDecisionLog(path: string): AsyncGenerator<GuardDecision> {
+  const lines = createInterface({ input: createReadStream(path, "utf8"), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim() === "") continue;
+    let raw: any;
+    try {
+      raw = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const record = raw && typeof raw.record === "object" && typeof raw.hash === "string" ? raw.record : raw;
+    if (record && (record.decision === "allow" || record.decision === "deny") && typeof record.at === "string") {
+      yield record as GuardDecision;
+    }
+  }
+}
+
+/** Plain-text table of a report; amounts in USD. */
+export function formatSpendReport(report: SpendReportJson): string {
+  const header = [...report.groupBy, "requests", "allowed", "denied", "paid", "spent_usd", "rejected_paid", "rejected_usd", "cond_fail"];
+  const line = (key: Record<string, string>, r: Omit<ReportRow, "key">) => [
+    ...report.groupBy.map((d) => key[d] ?? ""),
+    String(r.requests),
+    String(r.allowed),
+    String(r.denied),
+    String(r.paidCount),
+    formatUsdMicros(r.spentUsdMicros),
+    String(r.rejectedAfterPaymentCount),
+    formatUsdMicros(r.rejectedAfterPaymentUsdMicros),
+    String(r.conditionFailures),
+  ];
+  const total = Object.fromEntries(report.groupBy.map((d, i) => [d, i === 0 ? "TOTAL" : ""]));
+  const table = [header, ...report.rows.map((r) => line(r.key, r)), line(total, report.totals)];
+
+  const widths = header.map((_, i) => Math.max(...table.map((row) => row[i]!.length)));
+  const numeric = (i: number) => i >= report.groupBy.length;
+  const render = (row: string[]) =>
+    row
+      .map((cell, i) => (numeric(i) ? cell.padStart(widths[i]!) : cell.padEnd(widths[i]!)))
+      .join("  ")
+      .trimEnd();
+  const rule = widths.map((w) => "-".repeat(w)).join("  ");
+
+  const out = [render(header), rule, ...table.slice(1, -1).map(render), rule, render(table.at(-1)!)];
+  const { mismatched } = report.reconciliation;
+  if (mismatched.length > 0) {
+    out.push("", `Reconciliation: ${mismatched.length} fetchWithRetry call(s) missing attempt records:`);
+    for (const m of mismatched) {
+      out.push(`  ${m.id}: aggregate ${formatUsdMicros(m.aggregateUsdMicros)}, attempts ${formatUsdMicros(m.attemptsUsdMicros)}`);
+    }
+  }
+  return out.join("\n");
+}
+
+/** `"12500"` → `"0.012500"`. */
+export function formatUsdMicros(micros: string): string {
+  const v = BigInt(micros);
+  const abs = v < 0n ? -v : v;
+  return `${v < 0n ? "-" : ""}${abs / 1_000_000n}.${(abs % 1_000_000n).toString().padStart(6, "0")}`;
+}
+
+function emptyTotals(): Totals {
+  return {
+    requests: 0,
+    allowed: 0,
+    denied: 0,
+    paidCount: 0,
+    spent: 0n,
+    rejectedAfterPaymentCount: 0,
+    rejectedAfterPayment: 0n,
+    conditionFailures: 0,
+    denialsByCode: new Map(),
+  };
+}
+
+function accumulate(t: Totals, record: GuardDecision, paid: bigint | undefined): void {
+  t.requests += 1;
+  if (paid !== undefined) {
+    t.paidCount += 1;
+    t.spent += paid;
+  }
+  if (record.decision === "allow") {
+    t.allowed += 1;
+    return;
+  }
+  t.denied += 1;
+  t.denialsByCode.set(record.code, (t.denialsByCode.get(record.code) ?? 0) + 1);
+  if (record.code === "RESPONSE_CONDITION_FAILED") t.conditionFailures += 1;
+  if (paid !== undefined) {
+    t.rejectedAfterPaymentCount += 1;
+    t.rejectedAfterPayment += paid;
+  }
+}
+
+function rowOf(t: Totals): Omit<ReportRow, "key"> {
+  return {
+    requests: t.requests,
+    allowed: t.allowed,
+    denied: t.denied,
+    paidCount: t.paidCount,
+    spentUsdMicros: t.spent.toString(),
+    rejectedAfterPaymentCount: t.rejectedAfterPaymentCount,
+    rejectedAfterPaymentUsdMicros: t.rejectedAfterPayment.toString(),
+    conditionFailures: t.conditionFailures,
+    denialsByCode: Object.fromEntries([...t.denialsByCode].sort(([a], [b]) => a.localeCompare(b))),
+  };
+}
+
+function compareMicros(a: string, b: string): number {
+  const d = BigInt(a) - BigInt(b);
+  return d > 0n ? 1 : d < 0n ? -1 : 0;
+}
+
+function compareKeys(a: Record<string, string>, b: Record<string, string>, dims: ReportDimension[]): number {
+  for (const d of dims) {
+    const c = (a[d] ?? "").localeCompare(b[d] ?? "");
+    if (c !== 0) return c;
+  }
+  return 0;
+}
@@ -0,0 +1,69 @@
+import { GuardError } from "./utils/errors.js";
+
+/**
+ * Options for `guard.fetchWithRetry()`.
+ *
+ * Hand-written retry loops around `guard.fetch()` are only stopped by the budget. These options bound
+ * one *logical* request instead: how many attempts may pay, and how much they may pay in total.
+ */
+export type RetryOptions = {
+  /** Maximum attempts that sign a payment. Once reached, no further attempt is made. */
+  maxPaidAttempts: number;
+  /** Maximum attempts overall, paid or not. Defaults to `maxPaidAttempts`. */
+  maxAttempts?: number;
+  /** Cap on the summed USD value of all payments for this logical request. */
+  maxTotalUsd?: number;
+  /** Delay before attempt n+1: `min(initialMs * factor^(n-1), maxMs)`. */
+  backoff?: BackoffPolicy;
+};
+
+export type BackoffPolicy = {
+  initialMs: number;
+  /** Default: 2. */
+  factor?: number;
+  /** Default: no cap. */
+  maxMs?: number;
+};
+
+export const DEFAULT_BACKOFF: BackoffPolicy = { initialMs: 250, factor: 2, maxMs: 5_000 };
+
+/** One attempt of a `fetchWithRetry()` call, as listed in the aggregate decision record. */
+export type RetryAttemptAudit = {
+  index: number;
+  decision: "allow" | "deny";
+  code?: string;
+  status?: number;
+  /** USD micros of the payment this attempt signed (absent if it did not pay). */
+  paidUsdMicros?: string;
+};
+
+export function validateRetryOptions(options: RetryOptions): void {
+  const { maxPaidAttempts, maxAttempts, maxTotalUsd, backoff } = options;
+  if (!Number.isInteger(maxPaidAttempts) || maxPaidAttempts < 1) throw new Error("maxPaidAttempts must be an integer >= 1");
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+    throw new Error("maxAttempts must be an integer >= 1");
+  }
+  if (maxTotalUsd !== undefined && !(maxTotalUsd > 0)) throw new Error("maxTotalUsd must be > 0");
+  if (backoff) {
+    if (!(backoff.initialMs >= 0)) throw new Error("backoff.initialMs must be >= 0");
+    if (backoff.factor !== undefined && !(backoff.factor >= 1)) throw new Error("backoff.factor must be >= 1");
+    if (backoff.maxMs !== undefined && !(backoff.maxMs >= 0)) throw new Error("backoff.maxMs must be >= 0");
+  }
+}
+
+/** Delay before the attempt following attempt `index` (1-based). */
+export function backoffDelayMs(backoff: BackoffPolicy, index: number): number {
+  const delay = backoff.initialMs * (backoff.factor ?? 2) ** (index - 1);
+  return Math.min(delay, backoff.maxMs ?? Number.POSITIVE_INFINITY);
+}
+
+/**
+ * Only failures of the *service* are retried: a failed response condition or a 5xx status.
+ * Policy and budget blocks are deliberate decisions; retrying them would only repeat the denial.
+ */
+export function isRetryable(outcome: { error?: unknown; response?: Response }): boolean {
+  if (outcome.error !== undefined) {
+    return outcome.error instanceof GuardError && outcome.error.code === "RESPONSE_CONDITION_FAILED";
+  }
+  return outcome.response !== undefined && outcome.response.status >= 500;
+}
@@ -0,0 +1,222 @@
+import type { PaymentRequirements } from "@x402/core/types";
+
+import { circuitOpenError, CircuitBreakers } from "./policy/breaker.js";
+import { BudgetLedger, budgetWindowError, checkAll, reserveAll, type BudgetHold } from "./policy/budget.js";
+import { enforceResponseConditions } from "./policy/conditions.js";
+import { usdToUsdcBaseUnits, type GuardPolicy } from "./policy/policy.js";
+import { endpointPriceReference, recordEndpointPrice } from "./policy/prices.js";
+import { applicableRateLimits, rateLimitError, RateLimiter, type RateLimitSlot } from "./policy/ratelimit.js";
+import { evaluatePaymentRequirements, noAcceptableRequirementsError } from "./policy/requirements.js";
+import { DEFAULT_ROUTE_ID, resolveRoute } from "./policy/router.js";
+import { activatePolicy, applicableBudgets, type ActivePolicy, type PolicyScope } from "./policy/scopes.js";
+import { routeWallet, type WalletCapabilities } from "./policy/wallets.js";
+import { InMemoryPriceHistoryStore } from "./stores/prices.js";
+import { GuardError } from "./utils/errors.js";
+import { endpointOf } from "./utils/url.js";
+
+/**
+ * Shadow evaluation: run a policy's checks on live traffic without letting them block anything.
+ *
+ * Used for `enforcement: "shadow"` (the configured policy is only observed) and for `shadowPolicy`
+ * (a candidate policy observed next to the enforced one). The same checks run as when enforcing —
+ * requirement filtering, circuit breaker, rate limits, budget windows, approval threshold, response
+ * conditions — and the first one that would have blocked is reported as `wouldDeny` in the decision record.
+ * Nobody is asked to approve: a payment above `approval.thresholdUsd` is reported as
+ * `PAYMENT_BLOCKED_APPROVAL_DENIED` with `decision: "not_requested"`.
+ *
+ * The evaluation is counterfactual: a request the shadow policy would have blocked before paying does
+ * not count against its budgets or rate limits, and its response does not feed its circuit breaker.
+ * Shadow budgets, rate limits, price histories and breakers are in-memory and separate from the enforced ones.
+ * The balance floor (`minRemainingBalanceUsd`) is not mirrored: it would need a chain read per request.
+ */
+export type EnforcementMode = "enforce" | "shadow";
+
+/** What the guard enforces in shadow mode: every requirement passes, in the server's order. */
+export const PASS_THROUGH_POLICY: GuardPolicy = { rejectUnknownAssets: false };
+
+/** Per-request state of one shadow evaluation. */
+export type ShadowRequest = {
+  request: { url?: string; method?: string };
+  /** Shadow policy as of `begin` (kept for the whole request across `update` calls). */
+  active: ActivePolicy;
+  routeId?: string;
+  /** Requirement the shadow policy would have selected. */
+  selected?: PaymentRequirements;
+  wouldDeny?: GuardError;
+  holds: BudgetHold[];
+  rateSlots: RateLimitSlot[];
+  circuitTrial?: string;
+};
+
+export class ShadowEvaluator {
+  private active: ActivePolicy;
+  private readonly ledger = new BudgetLedger(() => undefined);
+  private readonly breakers = new CircuitBreakers();
+  private readonly rateLimiter = new RateLimiter();
+  private readonly prices = new InMemoryPriceHistoryStore();
+  /** The guard's wallets, if it has several: wallet routing and wallet budgets are mirrored too. */
+  private readonly wallets?: WalletCapabilities[];
+
+  constructor(policy: GuardPolicy, wallets?: WalletCapabilities[]) {
+    this.active = activatePolicy(policy);
+    this.wallets = wallets;
+  }
+
+  /** Swaps the evaluated policy; shadow budgets, rate limits and breakers carry over, like the enforced ones. */
+  update(policy: GuardPolicy): void {
+    this.active = activatePolicy(policy);
+  }
+
+  begin(request: ShadowRequest["request"]): ShadowRequest {
+    const active = this.active;
+    const route = resolveRoute(active.policy, request);
+    if (!route) {
+      return {
+        request,
+        active,
+        holds: [],
+        rateSlots: [],
+        wouldDeny: new GuardError("PAYMENT_BLOCKED_NO_ROUTE", "No policy route matches this request (strict routing).", {
+          url: request.url,
+          method: request.method,
+        }),
+      };
+    }
+    return { request, active, routeId: route.routeId, holds: [], rateSlots: [] };
+  }
+
+  /**
+   * Mirrors `guard.quote()`: route, requirement evaluation and a budget check for the selected option
+   * (`accepts` is absent when no payment was asked for). Nothing is reserved.
+   */
+  quote(request: ShadowRequest["request"], accepts?: PaymentRequirements[]): { route?: string; wouldDeny?: GuardError } {
+    const s = this.begin(request);
+    if (accepts) this.requirements(s, accepts);
+    if (!s.wouldDeny && s.selected) {
+      const scope = this.scopeOf(s);
+      // Acceptable options have all been valued.
+      const amount = scope.assets.usdMicros(s.selected)!;
+      const wallet = this.wallets && routeWallet(this.wallets, s.active.policy.wallets, s.selected, amount);
+      const check = checkAll(applicableBudgets(s.active.policy, scope, this.ledger, request.url, wallet), amount);
+      if (!check.ok) s.wouldDeny = budgetWindowError(check, amount);
+    }
+    return { route: s.routeId, wouldDeny: s.wouldDeny };
+  }
+
+  /** Mirrors the requirement policy registered on the x402 client. */
+  requirements(s: ShadowRequest, reqs: PaymentRequirements[]): void {
+    if (s.wouldDeny) return;
+    const scope = this.scopeOf(s);
+    const wallets = this.wallets;
+    const { acceptable, rejected } = evaluatePaymentRequirements(scope.policy, reqs, {
+      assets: scope.assets,
+      url: s.request.url,
+      prices: endpointPriceReference(this.prices, scope.policy.priceAnomaly, s.request.url),
+      canPay: wallets && ((r, usdMicros) => routeWallet(wallets, s.active.policy.wallets, r, usdMicros) !== undefined),
+    });
+    if (acceptable.length === 0) s.wouldDeny = noAcceptableRequirementsError(reqs, rejected);
+    else s.selected = acceptable[0];
+  }
+
+  /** Mirrors the before-signing hook: circuit breaker, rate limits, budgets, then the approval threshold. */
+  beforePayment(s: ShadowRequest, actual: PaymentRequirements): void {
+    if (s.wouldDeny) return;
+    const scope = this.scopeOf(s);
+
+    if (scope.policy.circuitBreaker) {
+      const key = this.circuitKey(s);
+      const circuit = this.breakers.check(key, scope.policy.circuitBreaker);
+      if (!circuit.ok) {
+        s.wouldDeny = circuitOpenError(key, circuit);
+        return;
+      }
+      if (circuit.trial) s.circuitTrial = key;
+    }
+
+    const limits = applicableRateLimits(s.active.policy.rateLimits, s.request.url);
+    if (limits.length > 0) {
+      const taken = this.rateLimiter.take(limits);
+      if (!taken.ok) {
+        s.wouldDeny = rateLimitError(taken);
+        return;
+      }
+      s.rateSlots = taken.slots;
+    }
+
+    const requirement = s.selected ?? actual;
+    const amount = scope.assets.usdMicros(requirement);
+    const wallet = this.wallets && routeWallet(this.wallets, s.active.policy.wallets, requirement, amount);
+    const targets = applicableBudgets(s.active.policy, scope, this.ledger, s.request.url, wallet);
+    const { approval } = scope.policy;
+    if (targets.length === 0 && !approval) return;
+    if (amount === null) {
+      s.wouldDeny = new GuardError(
+        "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+        "Blocked by asset policy: selected requirement cannot be valued in USD.",
+      );
+      return;
+    }
+    if (targets.length > 0) {
+      const check = reserveAll(targets, amount);
+      if (!check.ok) {
+        s.wouldDeny = budgetWindowError(check, amount);
+        return;
+      }
+      s.holds = check.holds;
+    }
+
+    if (approval && amount > usdToUsdcBaseUnits(approval.thresholdUsd)) {
+      s.wouldDeny = new GuardError(
+        "PAYMENT_BLOCKED_APPROVAL_DENIED",
+        "Would need approval: payment above the approval threshold (nobody is asked in shadow evaluation).",
+        { decision: "not_requested", thresholdUsd: approval.thresholdUsd, amountUsdMicros: amount.toString() },
+      );
+      // Not approved, so not spent: like a budget block, it does not count against the shadow budgets.
+      for (const h of s.holds) h.target.budget.release(h.reservation);
+      s.holds = [];
+    }
+  }
+
+  /** The payment was signed: spend the shadow budgets' holds and rate limit slots, remember the price. */
+  afterPayment(s: ShadowRequest, actual: PaymentRequirements): void {
+    const scope = this.scopeOf(s);
+    const paid = scope.assets.usdMicros(actual);
+    if (!s.wouldDeny && paid !== null) recordEndpointPrice(this.prices, scope.policy.priceAnomaly, s.request.url, paid);
+    for (const h of s.holds) h.target.budget.commit(h.reservation);
+    s.holds = [];
+    for (const slot of s.rateSlots) this.rateLimiter.commit(slot);
+    s.rateSlots = [];
+  }
+
+  /** Mirrors response conditions and the circuit breaker they feed. */
+  async response(s: ShadowRequest, res: Response, startedAtMs: number): Promise<void> {
+    if (s.wouldDeny) return;
+    const { policy } = this.scopeOf(s);
+    try {
+      await enforceResponseConditions(res, startedAtMs, policy.conditions);
+      if (policy.circuitBreaker) this.breakers.recordSuccess(this.circuitKey(s));
+    } catch (e) {
+      if (!(e instanceof GuardError)) throw e;
+      s.wouldDeny = e;
+      if (policy.circuitBreaker) this.breakers.recordFailure(this.circuitKey(s), policy.circuitBreaker);
+    }
+  }
+
+  /** Returns unused holds and slots / a half-open trial that never reached a verdict. */
+  finish(s: ShadowRequest): void {
+    for (const h of s.holds) h.target.budget.release(h.reservation);
+    s.holds = [];
+    for (const slot of s.rateSlots) this.rateLimiter.release(slot);
+    s.rateSlots = [];
+    if (s.circuitTrial) this.breakers.releaseTrial(s.circuitTrial);
+  }
+
+  private scopeOf(s: ShadowRequest): PolicyScope {
+    const { scopes } = s.active;
+    return scopes.get(s.routeId ?? DEFAULT_ROUTE_ID) ?? scopes.get(DEFAULT_ROUTE_ID)!;
+  }
+
+  private circuitKey(s: ShadowRequest): string {
+    return (s.request.url && endpointOf(s.request.url)) ?? "unknown";
+  }
+}
@@ -0,0 +1,205 @@
+import { createHash, createHmac } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, statSync } from "node:fs";
+import { dirname } from "node:path";
+
+import type { GuardAuditEvent } from "../receipt.js";
+import { canonicalJson } from "../utils/json.js";
+import { withFileLock, type FileLockOptions } from "./lock.js";
+
+/**
+ * How a sensitive field is written to the audit log:
+ * - `"hash"`: `sha256:<hex>` (HMAC with `hashKey` if set, so known addresses cannot be matched by
+ *   hashing a public list); equal values still correlate across records
+ * - `"redact"`: `"[redacted]"`
+ */
+export type AuditFieldMode = "hash" | "redact";
+
+export type AuditLogOptions = {
+  /** Example: `{ payTo: "hash", asset: "hash" }`. */
+  fields?: Record<string, AuditFieldMode>;
+  /** Secret for keyed hashing of `"hash"` fields. */
+  hashKey?: string;
+  lock?: FileLockOptions;
+};
+
+export type AuditEntry = {
+  seq: number;
+  prevHash: string;
+  hash: string;
+  record: GuardAuditEvent;
+};
+
+export type AuditVerification =
+  | { ok: true; entries: number; lastHash: string }
+  | {
+      ok: false;
+      /** Entries verified before the problem. */
+      entries: number;
+      /** 1-based line number of the first bad line. */
+      line: number;
+      problem: "malformed" | "sequence_gap" | "chain_broken" | "hash_mismatch";
+    };
+
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Append-only, hash-chained audit log for `GuardDecision` records (and `policy_changed` events).
+ *
+ * Each JSONL line is `{ seq, prevHash, hash, record }` where
+ * `hash = sha256(canonicalJson({ seq, prevHash, record }))` and `prevHash` is the previous line's hash
+ * (64 zeros for the first). Editing, inserting or deleting a line breaks the chain, which
+ * `verifyAuditLog` reports. Truncating the *end* of the log cannot be detected from the file alone:
+ * ship `lastHash` somewhere else (metrics, a ticket, another host) to anchor it.
+ *
+ * Privacy: decision records can contain `payTo` / `asset` addresses (see `receipt.ts`). Fields named
+ * in `fields` are replaced at any depth before the record is hashed and written, so the chain still
+ * verifies without the original values. In `policy_changed` events a change whose path goes through a
+ * named field (e.g. `allowedPayTo` in `merchants.allowedPayTo[0]`) has its before/after values replaced.
+ */
+export class FileAuditLog {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly options: AuditLogOptions;
+  /** Chain head as of our last write; re-read whenever another writer changed the file. */
+  private head?: { size: number; seq: number; hash: string };
+
+  constructor(path: string, options: AuditLogOptions = {}) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.options = options;
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  /** Appends one record. Usage: `onDecision: (r) => auditLog.write(r)` (and the same for `onPolicyChange`). */
+  write(record: GuardAuditEvent): AuditEntry {
+    return withFileLock(
+      this.lockPath,
+      () => {
+        const size = existsSync(this.path) ? statSync(this.path).size : 0;
+        const head = this.head?.size === size ? this.head : readHead(this.path, size);
+
+        const seq = head.seq + 1;
+        const redacted = redactRecord(record, this.options);
+        const entry: AuditEntry = {
+          seq,
+          prevHash: head.hash,
+          hash: entryHash(seq, head.hash, redacted),
+          record: redacted,
+        };
+        const line = `${JSON.stringify(entry)}\n`;
+        appendFileSync(this.path, line);
+        this.head = { size: size + Buffer.byteLength(line), seq, hash: entry.hash };
+        return entry;
+      },
+      this.options.lock,
+    );
+  }
+}
+
+/** Checks a log written by `FileAuditLog` for edits, insertions and deletions (except at the end). */
+export function verifyAuditLog(path: string): AuditVerification {
+  const lines = existsSync(path) ? readFileSync(path, "utf8").split("\n") : [];
+  let prevHash = GENESIS_HASH;
+  let entries = 0;
+
+  for (const [i, line] of lines.entries()) {
+    if (line.trim() === "") continue;
+    const entry = parseEntry(line);
+    const fail = (problem: Extract<AuditVerification, { ok: false }>["problem"]): AuditVerification => ({
+      ok: false,
+      entries,
+      line: i + 1,
+      problem,
+    });
+    if (!entry) return fail("malformed");
+    if (entry.seq !== entries + 1) return fail("sequence_gap");
+    if (entry.prevHash !== prevHash) return fail("chain_broken");
+    if (entry.hash !== entryHash(entry.seq, entry.prevHash, entry.record)) return fail("hash_mismatch");
+    prevHash = entry.hash;
+    entries += 1;
+  }
+  return { ok: true, entries, lastHash: prevHash };
+}
+
+function entryHash(seq: number, prevHash: string, record: GuardAuditEvent): string {
+  return createHash("sha256").update(canonicalJson({ seq, prevHash, record })).digest("hex");
+}
+
+function readHead(path: string, size: number): { size: number; seq: number; hash: string } {
+  if (size === 0) return { size, seq: 0, hash: GENESIS_HASH };
+  // Chain from the last intact entry; a torn final line stays visible to the verifier.
+  const lines = readFileSync(path, "utf8").split("\n");
+  for (let i = lines.length - 1; i >= 0; i -= 1) {
+    const entry = parseEntry(lines[i]!);
+    if (entry) return { size, seq: entry.seq, hash: entry.hash };
+  }
+  return { size, seq: 0, hash: GENESIS_HASH };
+}
+
+function parseEntry(line: string): AuditEntry | null {
+  try {
+    const raw = JSON.parse(line);
+    if (
+      typeof raw?.seq !== "number" ||
+      typeof raw?.prevHash !== "string" ||
+      typeof raw?.hash !== "string" ||
+      typeof raw?.record !== "object"
+    ) {
+      return null;
+    }
+    return raw as AuditEntry;
+  } catch {
+    return null;
+  }
+}
+
+function redactRecord(record: GuardAuditEvent, options: AuditLogOptions): GuardAuditEvent {
+  const fields = options.fields ?? {};
+  if (Object.keys(fields).length === 0) return record;
+
+  const modeOf = (key: string) => (Object.hasOwn(fields, key) ? fields[key] : undefined);
+  const apply = (mode: AuditFieldMode, v: unknown) => (mode === "redact" ? "[redacted]" : hashValue(v, options.hashKey));
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(walk);
+    if (!value || typeof value !== "object") return value;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => {
+        const mode = modeOf(key);
+        if (!mode || v === undefined) return [key, walk(v)];
+        return [key, apply(mode, v)];
+      }),
+    );
+  };
+
+  const redacted = walk(record) as GuardAuditEvent;
+  if (!("event" in redacted)) return redacted;
+  // A policy diff names the field in `path` (e.g. `merchants.allowedPayTo[0]`), not as a key.
+  return {
+    ...redacted,
+    changes: redacted.changes.map((change) => {
+      const mode = pathKeys(change.path).map(modeOf).find((m) => m !== undefined);
+      if (!mode) return change;
+      return {
+        ...change,
+        before: change.before === undefined ? undefined : apply(mode, change.before),
+        after: change.after === undefined ? undefined : apply(mode, change.after),
+      };
+    }),
+  };
+}
+
+/** Property names along a `jsonDiff` path: `routes[0].policy.payTo` → `routes`, `policy`, `payTo`. */
+function pathKeys(path: string): string[] {
+  return path
+    .split(".")
+    .map((segment) => segment.replace(/\[\d+\]/g, ""))
+    .filter((key) => key !== "");
+}
+
+function hashValue(value: unknown, key: string | undefined): string {
+  // EVM addresses are case-insensitive; hash one spelling so checksum casing does not split values.
+  const text =
+    typeof value !== "string" ? canonicalJson(value) : /^0x[0-9a-fA-F]+$/.test(value) ? value.toLowerCase() : value;
+  const digest = key ? createHmac("sha256", key).update(text) : createHash("sha256").update(text);
+  return `sha256:${digest.digest("hex")}`;
+}
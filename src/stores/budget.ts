@@ -0,0 +1,183 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+import { withFileLock, type FileLockOptions } from "./lock.js";
+
+export type SpendEvent = {
+  ts: number;
+  amountBaseUnits: bigint;
+  /** Set while the event is a budget hold (reserved, not signed yet); unique across processes. */
+  holdId?: string;
+};
+
+/**
+ * BudgetStore persists spend events for `RollingBudget`.
+ *
+ * The store is deliberately dumb: it knows nothing about limits or windows.
+ * `RollingBudget` passes explicit cutoffs, so the same store contract works for
+ * in-memory, file-backed or external (SQLite/Redis/...) implementations.
+ *
+ * Methods are synchronous so budget checks stay atomic within one process; `exclusive` extends that
+ * to every process sharing the store.
+ */
+export interface BudgetStore {
+  /** Returns all events currently held by the store (oldest first). */
+  load(): SpendEvent[];
+  /** Appends one spend event. */
+  append(event: SpendEvent): void;
+  /** Drops events strictly older than `cutoffTs`. */
+  prune(cutoffTs: number): void;
+  /** Sums events at or after `cutoffTs`. */
+  total(cutoffTs: number): bigint;
+  /** Drops the event of hold `holdId` (committed or released). */
+  remove(holdId: string): void;
+  /** Runs `fn` (e.g. a limit check followed by an append) with no other writer in between. */
+  exclusive<T>(fn: () => T): T;
+}
+
+/**
+ * Default store: process-local, lost on restart (previous behavior).
+ */
+export class InMemoryBudgetStore implements BudgetStore {
+  private events: SpendEvent[] = [];
+
+  load(): SpendEvent[] {
+    return [...this.events];
+  }
+
+  append(event: SpendEvent): void {
+    this.events.push(event);
+  }
+
+  prune(cutoffTs: number): void {
+    // Keep it simple; demo-scale.
+    this.events = this.events.filter((e) => e.ts >= cutoffTs);
+  }
+
+  total(cutoffTs: number): bigint {
+    return sumSince(this.events, cutoffTs);
+  }
+
+  remove(holdId: string): void {
+    this.events = this.events.filter((e) => e.holdId !== holdId);
+  }
+
+  exclusive<T>(fn: () => T): T {
+    // One process, synchronous callers: nothing can interleave.
+    return fn();
+  }
+}
+
+/**
+ * File-backed store: append-only JSONL, one spend event per line.
+ *
+ * - Survives restarts: a restarted agent reloads prior spend instead of getting a fresh budget.
+ * - Shared by several processes on one host: every read goes to the file, and writes
+ *   (append + compaction) are serialized with a lock file next to the log. Budget holds are written
+ *   to the log too, and `exclusive` holds the lock across a check and its append, so processes
+ *   sharing a budget cannot overshoot it together.
+ *
+ * Malformed lines (e.g. a torn write after a crash) are skipped rather than failing the guard.
+ */
+export class FileBudgetStore implements BudgetStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockOptions?: FileLockOptions;
+  private holdingLock = false;
+
+  constructor(path: string, options: { lock?: FileLockOptions } = {}) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.lockOptions = options.lock;
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  /**
+   * Store factory for guards with several budgets: one JSONL file per budget key inside `dir`.
+   * Usage: `new X402Guard(fetch, { ..., budgetStore: FileBudgetStore.inDirectory("./.x402-guard") })`.
+   */
+  static inDirectory(dir: string, options: { lock?: FileLockOptions } = {}): (key: string) => FileBudgetStore {
+    return (key) => new FileBudgetStore(join(dir, `${encodeURIComponent(key)}.jsonl`), options);
+  }
+
+  load(): SpendEvent[] {
+    if (!existsSync(this.path)) return [];
+    const events: SpendEvent[] = [];
+    for (const line of readFileSync(this.path, "utf8").split("\n")) {
+      const event = parseLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  append(event: SpendEvent): void {
+    this.locked(() => appendFileSync(this.path, serialize(event)));
+  }
+
+  prune(cutoffTs: number): void {
+    // Cheap check first: avoid taking the lock / rewriting when nothing expired.
+    if (!this.load().some((e) => e.ts < cutoffTs)) return;
+
+    this.locked(() => this.rewrite((e) => e.ts >= cutoffTs));
+  }
+
+  total(cutoffTs: number): bigint {
+    return sumSince(this.load(), cutoffTs);
+  }
+
+  remove(holdId: string): void {
+    this.locked(() => this.rewrite((e) => e.holdId !== holdId));
+  }
+
+  exclusive<T>(fn: () => T): T {
+    return this.locked(fn);
+  }
+
+  /** Rewrites the log with the events `keep` accepts; call with the lock held. */
+  private rewrite(keep: (event: SpendEvent) => boolean): void {
+    const kept = this.load().filter(keep);
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmp, kept.map(serialize).join(""));
+    // rename is atomic: concurrent readers see either the old or the compacted log.
+    renameSync(tmp, this.path);
+  }
+
+  /** Re-entrant: appends and prunes inside `exclusive` run under the lock it already holds. */
+  private locked<T>(fn: () => T): T {
+    if (this.holdingLock) return fn();
+    return withFileLock(
+      this.lockPath,
+      () => {
+        this.holdingLock = true;
+        try {
+          return fn();
+        } finally {
+          this.holdingLock = false;
+        }
+      },
+      this.lockOptions,
+    );
+  }
+}
+
+function sumSince(events: SpendEvent[], cutoffTs: number): bigint {
+  return events.reduce((acc, e) => (e.ts >= cutoffTs ? acc + e.amountBaseUnits : acc), 0n);
+}
+
+function serialize(event: SpendEvent): string {
+  // bigint is not JSON-serializable; store base units as a decimal string.
+  return `${JSON.stringify({ ts: event.ts, amountBaseUnits: event.amountBaseUnits.toString(), holdId: event.holdId })}\n`;
+}
+
+function parseLine(line: string): SpendEvent | null {
+  if (line.trim() === "") return null;
+  try {
+    const raw = JSON.parse(line);
+    if (typeof raw?.ts !== "number" || typeof raw?.amountBaseUnits !== "string") return null;
+    const event: SpendEvent = { ts: raw.ts, amountBaseUnits: BigInt(raw.amountBaseUnits) };
+    if (typeof raw.holdId === "string") event.holdId = raw.holdId;
+    return event;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,129 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { withFileLock, type FileLockOptions } from "./lock.js";
+
+/**
+ * One idempotency key the guard has claimed.
+ *
+ * - `pending`: a payment for this key is being negotiated right now (claimed before signing). Pending
+ *   claims get a short lease, so a process that crashed before signing does not block the key for long.
+ * - `paid`: a payment payload was signed for this key; a second one is blocked until `expiresAt`.
+ */
+export type IdempotencyEntry = {
+  key: string;
+  state: "pending" | "paid";
+  at: number;
+  expiresAt: number;
+};
+
+/**
+ * IdempotencyStore remembers which logical requests were already paid for.
+ *
+ * Like `BudgetStore`, methods are synchronous so claim-then-sign stays atomic within one process.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claims `entry.key` unless a live (unexpired) entry exists.
+   * Returns null on success, or the existing entry that blocks the claim.
+   */
+  claim(entry: IdempotencyEntry, now: number): IdempotencyEntry | null;
+  /** Inserts or replaces an entry (used to mark a claim as paid, or to force-record an override). */
+  put(entry: IdempotencyEntry): void;
+  /**
+   * Drops a pending claim that never produced a payment, only if it is still the entry stored under
+   * its key (same state and `at`): an entry written since, e.g. marked paid by a repeat, stays.
+   */
+  release(claim: IdempotencyEntry): void;
+}
+
+/** Default store: process-local, lost on restart. */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, IdempotencyEntry>();
+
+  claim(entry: IdempotencyEntry, now: number): IdempotencyEntry | null {
+    const existing = this.entries.get(entry.key);
+    if (existing && existing.expiresAt > now) return existing;
+    this.entries.set(entry.key, entry);
+    return null;
+  }
+
+  put(entry: IdempotencyEntry): void {
+    this.entries.set(entry.key, entry);
+  }
+
+  release(claim: IdempotencyEntry): void {
+    if (sameEntry(this.entries.get(claim.key), claim)) this.entries.delete(claim.key);
+  }
+}
+
+/**
+ * File-backed store: one JSON object (key → entry) rewritten atomically under a lock file.
+ *
+ * Survives restarts, which is the case idempotency keys exist for: an agent that times out, crashes
+ * and re-issues the same request must not pay twice. Expired entries are dropped on every write.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockOptions?: FileLockOptions;
+
+  constructor(path: string, options: { lock?: FileLockOptions } = {}) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.lockOptions = options.lock;
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  claim(entry: IdempotencyEntry, now: number): IdempotencyEntry | null {
+    return this.update(now, (entries) => {
+      const existing = entries[entry.key];
+      if (existing && existing.expiresAt > now) return existing;
+      entries[entry.key] = entry;
+      return null;
+    });
+  }
+
+  put(entry: IdempotencyEntry): void {
+    this.update(Date.now(), (entries) => {
+      entries[entry.key] = entry;
+    });
+  }
+
+  release(claim: IdempotencyEntry): void {
+    this.update(Date.now(), (entries) => {
+      if (sameEntry(entries[claim.key], claim)) delete entries[claim.key];
+    });
+  }
+
+  private update<T>(now: number, fn: (entries: Record<string, IdempotencyEntry>) => T): T {
+    return withFileLock(
+      this.lockPath,
+      () => {
+        const entries = this.read();
+        for (const [key, e] of Object.entries(entries)) if (e.expiresAt <= now) delete entries[key];
+        const result = fn(entries);
+        const tmp = `${this.path}.${process.pid}.tmp`;
+        writeFileSync(tmp, JSON.stringify(entries));
+        renameSync(tmp, this.path);
+        return result;
+      },
+      this.lockOptions,
+    );
+  }
+
+  private read(): Record<string, IdempotencyEntry> {
+    if (!existsSync(this.path)) return {};
+    try {
+      const raw = JSON.parse(readFileSync(this.path, "utf8"));
+      return raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+    } catch {
+      // A corrupt file must not wedge the guard; it only loses dedupe history.
+      return {};
+    }
+  }
+}
+
+function sameEntry(stored: IdempotencyEntry | undefined, entry: IdempotencyEntry): boolean {
+  return stored !== undefined && stored.state === entry.state && stored.at === entry.at;
+}
@@ -0,0 +1,57 @@
+import { closeSync, openSync, statSync, unlinkSync } from "node:fs";
+
+/**
+ * Minimal cross-process advisory lock based on an exclusive lock file (`O_CREAT | O_EXCL`).
+ *
+ * This is enough for several agent processes on one host sharing a file-backed store.
+ * It is NOT a distributed lock (network filesystems make no such guarantees).
+ *
+ * Stale locks (left behind by a crashed process) are broken after `staleMs`.
+ */
+export type FileLockOptions = {
+  /** Give up acquiring the lock after this long. Default: 5s. */
+  timeoutMs?: number;
+  /** Treat an existing lock file older than this as abandoned. Default: 10s. */
+  staleMs?: number;
+};
+
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
+
+function sleepSync(ms: number) {
+  Atomics.wait(sleepCell, 0, 0, ms);
+}
+
+export function withFileLock<T>(lockPath: string, fn: () => T, options: FileLockOptions = {}): T {
+  const timeoutMs = options.timeoutMs ?? 5_000;
+  const staleMs = options.staleMs ?? 10_000;
+  const deadline = Date.now() + timeoutMs;
+
+  let fd: number | undefined;
+  while (fd === undefined) {
+    try {
+      fd = openSync(lockPath, "wx");
+    } catch (e: any) {
+      if (e?.code !== "EEXIST") throw e;
+
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > staleMs) unlinkSync(lockPath);
+      } catch {
+        // Lock was released (or broken by someone else) between open and stat; just retry.
+      }
+
+      if (Date.now() > deadline) throw new Error(`Timed out acquiring lock: ${lockPath}`);
+      sleepSync(5);
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    closeSync(fd);
+    try {
+      unlinkSync(lockPath);
+    } catch {
+      // Already removed (e.g. broken as stale); nothing else to do.
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { withFileLock, type FileLockOptions } from "./lock.js";
+
+export type PriceObservation = {
+  ts: number;
+  usdMicros: bigint;
+};
+
+/** Prices paid to one endpoint: the very first one, and the most recent ones (oldest first). */
+export type PriceHistory = {
+  first: PriceObservation;
+  recent: PriceObservation[];
+};
+
+/**
+ * PriceHistoryStore remembers what the guard paid per endpoint (origin + path), for `policy.priceAnomaly`.
+ *
+ * Like `BudgetStore`, the store knows nothing about the policy: the guard passes how many recent
+ * prices to keep. Methods are synchronous so a check sees every price recorded before it.
+ */
+export interface PriceHistoryStore {
+  get(endpoint: string): PriceHistory | undefined;
+  /** Appends a price, keeping the last `keep` in `recent`; the first price ever recorded is kept as `first`. */
+  record(endpoint: string, observation: PriceObservation, keep: number): void;
+}
+
+/** Default store: process-local, lost on restart. */
+export class InMemoryPriceHistoryStore implements PriceHistoryStore {
+  private readonly histories = new Map<string, PriceHistory>();
+
+  get(endpoint: string): PriceHistory | undefined {
+    const h = this.histories.get(endpoint);
+    return h && { first: h.first, recent: [...h.recent] };
+  }
+
+  record(endpoint: string, observation: PriceObservation, keep: number): void {
+    this.histories.set(endpoint, appendPrice(this.histories.get(endpoint), observation, keep));
+  }
+}
+
+/**
+ * File-backed store: one JSON object (endpoint → history) rewritten atomically under a lock file.
+ *
+ * Survives restarts, so a pinned first price stays pinned: a server cannot reset its baseline by
+ * waiting for the agent to restart.
+ */
+export class FilePriceHistoryStore implements PriceHistoryStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockOptions?: FileLockOptions;
+
+  constructor(path: string, options: { lock?: FileLockOptions } = {}) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.lockOptions = options.lock;
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  get(endpoint: string): PriceHistory | undefined {
+    return this.read()[endpoint];
+  }
+
+  record(endpoint: string, observation: PriceObservation, keep: number): void {
+    withFileLock(
+      this.lockPath,
+      () => {
+        const histories = this.read();
+        histories[endpoint] = appendPrice(histories[endpoint], observation, keep);
+        const tmp = `${this.path}.${process.pid}.tmp`;
+        writeFileSync(tmp, JSON.stringify(histories, (_k, v) => (typeof v === "bigint" ? v.toString() : v)));
+        renameSync(tmp, this.path);
+      },
+      this.lockOptions,
+    );
+  }
+
+  private read(): Record<string, PriceHistory> {
+    if (!existsSync(this.path)) return {};
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(this.path, "utf8"));
+    } catch {
+      // A corrupt file must not wedge the guard; it only loses price history.
+      return {};
+    }
+    const histories: Record<string, PriceHistory> = {};
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return histories;
+    for (const [endpoint, h] of Object.entries(raw as Record<string, any>)) {
+      const first = parseObservation(h?.first);
+      if (!first || !Array.isArray(h.recent)) continue;
+      histories[endpoint] = { first, recent: h.recent.map(parseObservation).filter((o: PriceObservation | null) => o !== null) };
+    }
+    return histories;
+  }
+}
+
+function appendPrice(history: PriceHistory | undefined, observation: PriceObservation, keep: number): PriceHistory {
+  const recent = [...(history?.recent ?? []), observation];
+  return { first: history?.first ?? observation, recent: recent.slice(Math.max(0, recent.length - keep)) };
+}
+
+function parseObservation(raw: any): PriceObservation | null {
+  if (typeof raw?.ts !== "number" || typeof raw?.usdMicros !== "string") return null;
+  try {
+    return { ts: raw.ts, usdMicros: BigInt(raw.usdMicros) };
+  } catch {
+    return null;
+  }
+}
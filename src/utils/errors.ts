@@ -2,7 +2,14 @@ export type GuardErrorCode =
   | "POLICY_INVALID"
   | "PAYMENT_BLOCKED_PER_PAYMENT_CAP"
   | "PAYMENT_BLOCKED_BUDGET_WINDOW"
+  | "PAYMENT_BLOCKED_RATE_LIMIT"
   | "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS"
+  | "PAYMENT_BLOCKED_NO_ROUTE"
+  | "PAYMENT_BLOCKED_CIRCUIT_OPEN"
+  | "PAYMENT_BLOCKED_RETRY_LIMIT"
+  | "PAYMENT_BLOCKED_DUPLICATE"
+  | "PAYMENT_BLOCKED_APPROVAL_DENIED"
+  | "PAYMENT_BLOCKED_BALANCE_FLOOR"
   | "RESPONSE_CONDITION_FAILED";
 
 /**
@@ -0,0 +1,52 @@
+/** Structural equality for JSON values (as produced by `JSON.parse`). */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((x, i) => deepEqual(x, b[i]));
+  }
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  const ra = a as Record<string, unknown>;
+  const rb = b as Record<string, unknown>;
+  const keys = Object.keys(ra);
+  return keys.length === Object.keys(rb).length && keys.every((k) => Object.hasOwn(rb, k) && deepEqual(ra[k], rb[k]));
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values always serialize (and hash) the same.
+ * `undefined` properties are dropped, as `JSON.stringify` does.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+      : v,
+  );
+}
+
+/**
+ * Leaf-level differences between two JSON-like values, with paths such as `budget.windowMs` or
+ * `routes[0].policy.maxPerPaymentUsd`. Functions compare by identity and are shown as `"[function]"`.
+ */
+export type JsonChange = { path: string; before?: unknown; after?: unknown };
+
+export function jsonDiff(before: unknown, after: unknown, path = ""): JsonChange[] {
+  if (before === after || deepEqual(before, after)) return [];
+  const show = (v: unknown) => (typeof v === "function" ? "[function]" : v);
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i += 1) {
+      changes.push(...jsonDiff(before[i], after[i], `${path}[${i}]`));
+    }
+    return changes;
+  }
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((k) => jsonDiff(before[k], after[k], path ? `${path}.${k}` : k));
+  }
+  return [{ path, before: show(before), after: show(after) }];
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,18 @@
+/** URL origin, or undefined if `value` is not an absolute URL. */
+export function originOf(value: string): string | undefined {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/** `origin + pathname` (query/fragment dropped), or undefined if `value` is not an absolute URL. */
+export function endpointOf(value: string): string | undefined {
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,76 @@
+import { x402Client } from "@x402/fetch";
+import type { Network, PaymentRequired, PaymentRequirements } from "@x402/core/types";
+
+import { DEFAULT_WALLET_SCHEMES, type WalletCapabilities } from "./policy/wallets.js";
+
+/**
+ * One signer of a multi-wallet guard (`wallets` in the guard config), e.g. one hot wallet per risk
+ * tier or network. Which wallet pays for a requirement is decided by `policy.wallets`.
+ */
+export type GuardWallet = {
+  /** Referenced by `policy.wallets[].id`; recorded in decision records. Must be unique. */
+  id: string;
+  /** A configured x402 client for this wallet's signer. */
+  client: x402Client;
+  /** Payer address, recorded in decision records. */
+  address: string;
+  /** Networks `client` has schemes registered for: CAIP-2 ids or patterns such as `eip155:*`. */
+  networks: Network[];
+  /** Payment schemes `client` can sign. Default: `["exact"]`. */
+  schemes?: string[];
+};
+
+/** The wallet chosen for the payment being signed, and the 402 offer it pays. */
+export type RoutedWallet = { wallet: GuardWallet; paymentRequired: PaymentRequired };
+
+export function walletCapabilities(wallets: GuardWallet[]): WalletCapabilities[] {
+  return wallets.map(({ id, networks, schemes }) => ({ id, networks, schemes: schemes ?? DEFAULT_WALLET_SCHEMES }));
+}
+
+/** Throws a message naming the first problem with the configured wallets. */
+export function validateWallets(wallets: GuardWallet[]): void {
+  if (wallets.length === 0) throw new Error("wallets must not be empty");
+  const ids = new Set<string>();
+  for (const [i, w] of wallets.entries()) {
+    const path = `wallets[${i}]`;
+    if (typeof w.id !== "string" || w.id.length === 0) throw new Error(`${path}.id is required`);
+    if (ids.has(w.id)) throw new Error(`${path}.id "${w.id}" is not unique`);
+    ids.add(w.id);
+    if (!(w.client instanceof x402Client)) throw new Error(`${path}.client must be an x402Client`);
+    if (typeof w.address !== "string" || w.address.length === 0) throw new Error(`${path}.address is required`);
+    if (!Array.isArray(w.networks) || w.networks.length === 0 || w.networks.some((n) => typeof n !== "string" || !n.includes(":"))) {
+      throw new Error(`${path}.networks must list CAIP-2 ids or patterns (e.g. eip155:*)`);
+    }
+    if (w.schemes !== undefined && (!Array.isArray(w.schemes) || w.schemes.length === 0)) {
+      throw new Error(`${path}.schemes must be a non-empty array`);
+    }
+  }
+}
+
+/**
+ * The x402 client a multi-wallet guard pays through. It signs nothing itself: for every network and
+ * scheme of every wallet it registers a stand-in that hands the selected requirement to the wallet
+ * `routed()` names (chosen by the guard before signing). Without one, signing fails (fail closed).
+ */
+export function walletRouterClient(wallets: GuardWallet[], routed: () => RoutedWallet | undefined): x402Client {
+  const router = new x402Client();
+  const schemes = new Set(wallets.flatMap((w) => w.schemes ?? DEFAULT_WALLET_SCHEMES));
+  for (const scheme of schemes) {
+    const stand = {
+      scheme,
+      async createPaymentPayload(x402Version: number, requirements: PaymentRequirements) {
+        const route = routed();
+        if (!route) throw new Error("Blocked by wallet policy: no wallet was routed for this payment.");
+        return route.wallet.client.createPaymentPayload({ ...route.paymentRequired, x402Version, accepts: [requirements] });
+      },
+    };
+    for (const w of wallets) {
+      if (!(w.schemes ?? DEFAULT_WALLET_SCHEMES).includes(scheme)) continue;
+      for (const network of w.networks) {
+        router.register(network, stand);
+        router.registerV1(network, stand);
+      }
+    }
+  }
+  return router;
+}
@@ -0,0 +1,121 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+
+import { X402Guard } from "../src/guard.js";
+import type { GuardDecision, PolicyChangedEvent } from "../src/receipt.js";
+import { FileAuditLog, verifyAuditLog, type AuditEntry } from "../src/stores/audit.js";
+import { BASE_SEPOLIA_USDC, fakeClient, paidApi, req } from "./helpers.js";
+
+function deny(url: string): GuardDecision {
+  return {
+    decision: "deny",
+    at: "2026-01-01T00:00:00.000Z",
+    request: { url, method: "GET" },
+    code: "PAYMENT_BLOCKED_PER_PAYMENT_CAP",
+    explanation: "too expensive",
+  };
+}
+
+describe("FileAuditLog", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "x402-guard-audit-"));
+    path = join(dir, "audit.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lines = () => readFileSync(path, "utf8").trimEnd().split("\n");
+
+  test("chains records across restarts and verifies", () => {
+    new FileAuditLog(path).write(deny("https://api.test/1"));
+    const restarted = new FileAuditLog(path);
+    restarted.write(deny("https://api.test/2"));
+    const last = restarted.write(deny("https://api.test/3"));
+
+    const entries = lines().map((l) => JSON.parse(l) as AuditEntry);
+    expect(entries.map((e) => e.seq)).toEqual([1, 2, 3]);
+    expect(entries[1]?.prevHash).toBe(entries[0]?.hash);
+    expect(verifyAuditLog(path)).toEqual({ ok: true, entries: 3, lastHash: last.hash });
+  });
+
+  test("detects an edited record", () => {
+    const log = new FileAuditLog(path);
+    for (const n of [1, 2, 3]) log.write(deny(`https://api.test/${n}`));
+
+    writeFileSync(path, readFileSync(path, "utf8").replace("https://api.test/2", "https://api.test/9"));
+    expect(verifyAuditLog(path)).toEqual({ ok: false, entries: 1, line: 2, problem: "hash_mismatch" });
+  });
+
+  test("detects a deleted record", () => {
+    const log = new FileAuditLog(path);
+    for (const n of [1, 2, 3]) log.write(deny(`https://api.test/${n}`));
+
+    const [first, , third] = lines();
+    writeFileSync(path, `${first}\n${third}\n`);
+    expect(verifyAuditLog(path)).toEqual({ ok: false, entries: 1, line: 2, problem: "sequence_gap" });
+  });
+
+  test("detects a deleted record whose successor was renumbered", () => {
+    const log = new FileAuditLog(path);
+    for (const n of [1, 2, 3]) log.write(deny(`https://api.test/${n}`));
+
+    const [first, , third] = lines();
+    writeFileSync(path, `${first}\n${third!.replace('"seq":3', '"seq":2')}\n`);
+    expect(verifyAuditLog(path)).toMatchObject({ ok: false, line: 2, problem: "chain_broken" });
+  });
+
+  test("hashes or redacts configured fields at any depth before writing", async () => {
+    const log = new FileAuditLog(path, { fields: { payTo: "hash", asset: "redact" }, hashKey: "k" });
+    const api = paidApi({ accepts: () => [req(50_000n), req(1_000n, { payTo: "0xAbC" })] });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { maxPerPaymentUsd: 0.01 },
+      onDecision: (r) => log.write(r),
+    });
+
+    await guard.fetch("https://api.test/x", { method: "GET" });
+    const text = readFileSync(path, "utf8");
+    expect(text).not.toContain(BASE_SEPOLIA_USDC);
+    expect(text.toLowerCase()).not.toContain("0xabc");
+    expect(text.toLowerCase()).not.toContain("0xdeadbeef");
+
+    const [entry] = lines().map((l) => JSON.parse(l) as AuditEntry);
+    const payment = (entry?.record as GuardDecision | undefined)?.payment;
+    expect(payment?.selected?.asset).toBe("[redacted]");
+    expect(payment?.selected?.payTo).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(payment?.rejected?.[0]?.requirement.payTo).toMatch(/^sha256:/);
+    expect(payment?.rejected?.[0]?.requirement.payTo).not.toBe(payment?.selected?.payTo);
+    expect(verifyAuditLog(path)).toMatchObject({ ok: true, entries: 1 });
+  });
+
+  test("applies the same field modes to policy diffs", () => {
+    const log = new FileAuditLog(path, { fields: { allowedPayTo: "hash", asset: "redact" } });
+    const guard = new X402Guard(paidApi({ accepts: () => [] }).fetch, {
+      client: fakeClient(),
+      policy: { merchants: { allowedPayTo: ["0xAbC"] } },
+      onPolicyChange: (event) => log.write(event),
+    });
+
+    guard.updatePolicy({
+      merchants: { allowedPayTo: ["0xAbC", "0xDeF"] },
+      assets: [{ network: "eip155:84532", asset: "0x4200000000000000000000000000000000000006", decimals: 18, usdPrice: 2_000 }],
+    });
+    const text = readFileSync(path, "utf8").toLowerCase();
+    expect(text).not.toContain("0xdef");
+    expect(text).not.toContain("0x4200000000000000000000000000000000000006");
+
+    const [entry] = lines().map((l) => JSON.parse(l) as AuditEntry);
+    expect((entry?.record as PolicyChangedEvent).changes).toEqual([
+      { path: "assets", after: [expect.objectContaining({ asset: "[redacted]", decimals: 18 })] },
+      { path: "merchants.allowedPayTo[1]", after: expect.stringMatching(/^sha256:/) },
+    ]);
+    expect(verifyAuditLog(path)).toMatchObject({ ok: true, entries: 1 });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "vitest";
+
+import { ViemBalanceProvider } from "../src/balance.js";
+import { X402Guard } from "../src/guard.js";
+import { BalanceCache, type BalanceProvider, type BalanceQuery } from "../src/policy/balance.js";
+import { BASE_SEPOLIA_USDC, fakeClient, paidApi, req, sleep } from "./helpers.js";
+
+const init: RequestInit = { method: "POST" };
+const PAYER = "0x00000000000000000000000000000000000000a1";
+
+/** A provider over a fixed balance that counts its reads. */
+function mockBalances(balance: () => bigint | Promise<bigint>): BalanceProvider & { reads: BalanceQuery[] } {
+  const reads: BalanceQuery[] = [];
+  return {
+    reads,
+    async getBalance(query) {
+      reads.push(query);
+      return balance();
+    },
+  };
+}
+
+describe("BalanceCache", () => {
+  test("serves reads from the cache within the TTL, minus debits, and shares concurrent reads", async () => {
+    const provider = mockBalances(async () => {
+      await sleep(5);
+      return 1_000n;
+    });
+    const cache = new BalanceCache(provider, 50);
+    const query: BalanceQuery = { network: "eip155:84532", asset: BASE_SEPOLIA_USDC, address: PAYER };
+    const any = () => true;
+
+    expect(await Promise.all([cache.available(query, 0), cache.available(query, 0)])).toEqual([1_000n, 1_000n]);
+    expect(cache.tryDebit(query, 300n, any)).toEqual({ ok: true });
+    cache.commit(query, 300n);
+    expect(cache.tryDebit(query, 100n, any)).toEqual({ ok: true });
+    expect(await cache.available(query, 10)).toBe(600n);
+    expect(cache.tryDebit(query, 200n, (remaining) => remaining >= 500n)).toEqual({ ok: false, availableBaseUnits: 600n });
+    cache.release(query, 100n);
+    expect(await cache.available(query, 20)).toBe(700n);
+    expect(provider.reads).toHaveLength(1);
+
+    // A new read after the TTL starts over from the chain's balance, minus debits not signed yet.
+    expect(cache.tryDebit(query, 50n, any)).toEqual({ ok: true });
+    expect(await cache.available(query, 60)).toBe(950n);
+    expect(provider.reads).toHaveLength(2);
+  });
+});
+
+describe("X402Guard balance floor", () => {
+  test("blocks a payment that would leave the wallet below minRemainingBalanceUsd", async () => {
+    const api = paidApi({ accepts: () => [req(2_000n)] });
+    const balances = mockBalances(() => 10_000n);
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      payerAddress: PAYER,
+      balanceProvider: balances,
+      policy: { minRemainingBalanceUsd: 0.005 },
+    });
+
+    await guard.fetch("https://a.test/x", init);
+    await guard.fetch("https://a.test/x", init);
+    // 10_000 - 2 × 2_000 paid = 6_000 left; another 2_000 would leave 4_000 < 5_000.
+    await expect(guard.fetch("https://a.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BALANCE_FLOOR",
+      details: { address: PAYER, availableBaseUnits: "6000", nextBaseUnits: "2000", remainingUsdMicros: "4000" },
+    });
+    expect(api.paidCount()).toBe(2);
+    expect(balances.reads).toEqual([{ network: "eip155:84532", asset: BASE_SEPOLIA_USDC, address: PAYER }]);
+  });
+
+  test("values the remaining balance rounded down, so a fraction of a micro-dollar cannot meet the floor", async () => {
+    const TOKEN = "0x00000000000000000000000000000000000000c0";
+    const api = paidApi({ accepts: () => [req(1n, { asset: TOKEN })] });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      payerAddress: PAYER,
+      balanceProvider: mockBalances(() => 600n),
+      // 599 tokens left are worth $0.0014975: rounded up it would meet the floor.
+      policy: { minRemainingBalanceUsd: 0.001498, assets: [{ network: "eip155:84532", asset: TOKEN, decimals: 0, usdPrice: 2.5e-6 }] },
+    });
+
+    await expect(guard.fetch("https://a.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BALANCE_FLOOR",
+      details: { availableBaseUnits: "600", nextBaseUnits: "1", remainingUsdMicros: "1497" },
+    });
+    expect(api.paidCount()).toBe(0);
+  });
+
+  test("fails closed when the balance cannot be read or nobody can read it", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      payerAddress: PAYER,
+      balanceProvider: new ViemBalanceProvider({}),
+      policy: { minRemainingBalanceUsd: 1 },
+    });
+    await expect(guard.fetch("https://a.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BALANCE_FLOOR",
+      details: { error: "no public client for network eip155:84532" },
+    });
+    expect(api.paidCount()).toBe(0);
+
+    expect(() => new X402Guard(api.fetch, { client: fakeClient(), policy: { minRemainingBalanceUsd: 1 } })).toThrow(
+      expect.objectContaining({ code: "POLICY_INVALID" }),
+    );
+  });
+
+  test("ViemBalanceProvider reads ERC-20 balanceOf for the payer", async () => {
+    const calls: unknown[] = [];
+    const provider = new ViemBalanceProvider({
+      "eip155:84532": {
+        readContract: (async (args: unknown) => {
+          calls.push(args);
+          return 42n;
+        }) as any,
+      },
+    });
+    expect(await provider.getBalance({ network: "eip155:84532", asset: BASE_SEPOLIA_USDC, address: PAYER })).toBe(42n);
+    expect(calls).toMatchObject([{ address: BASE_SEPOLIA_USDC, functionName: "balanceOf", args: [PAYER] }]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "vitest";
+
+import { CircuitBreakers } from "../src/policy/breaker.js";
+
+const policy = { failureThreshold: 2, cooldownMs: 1_000 };
+
+describe("CircuitBreakers", () => {
+  test("opens after consecutive failures and blocks until the cooldown passes", () => {
+    const b = new CircuitBreakers();
+    b.recordFailure("k", policy, 0);
+    expect(b.check("k", policy, 10).ok).toBe(true);
+    b.recordFailure("k", policy, 100);
+
+    const blocked = b.check("k", policy, 600);
+    expect(blocked).toMatchObject({ ok: false, retryAfterMs: 500, snapshot: { state: "open", failures: 2 } });
+  });
+
+  test("a success resets the failure count", () => {
+    const b = new CircuitBreakers();
+    b.recordFailure("k", policy, 0);
+    b.recordSuccess("k");
+    b.recordFailure("k", policy, 0);
+    expect(b.snapshot("k")).toMatchObject({ state: "closed", failures: 1 });
+  });
+
+  test("half-open allows exactly one trial; its outcome closes or re-opens", () => {
+    const b = new CircuitBreakers();
+    b.recordFailure("k", policy, 0);
+    b.recordFailure("k", policy, 0);
+
+    expect(b.check("k", policy, 1_000)).toMatchObject({ ok: true, trial: true });
+    expect(b.check("k", policy, 1_000).ok).toBe(false);
+
+    b.recordFailure("k", policy, 1_000);
+    expect(b.check("k", policy, 1_500)).toMatchObject({ ok: false, snapshot: { state: "open" } });
+
+    expect(b.check("k", policy, 2_000)).toMatchObject({ ok: true, trial: true });
+    b.recordSuccess("k");
+    expect(b.check("k", policy, 2_000)).toMatchObject({ ok: true, trial: false, snapshot: { state: "closed" } });
+  });
+
+  test("a released trial lets the next caller try", () => {
+    const b = new CircuitBreakers();
+    b.recordFailure("k", policy, 0);
+    b.recordFailure("k", policy, 0);
+    expect(b.check("k", policy, 1_000).ok).toBe(true);
+    b.releaseTrial("k");
+    expect(b.check("k", policy, 1_000)).toMatchObject({ ok: true, trial: true });
+  });
+
+  test("keys are independent", () => {
+    const b = new CircuitBreakers();
+    b.recordFailure("a", policy, 0);
+    b.recordFailure("a", policy, 0);
+    expect(b.check("a", policy, 10).ok).toBe(false);
+    expect(b.check("b", policy, 10).ok).toBe(true);
+  });
+});
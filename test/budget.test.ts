@@ -1,5 +1,9 @@
-import { describe, expect, test } from "vitest";
-import { RollingBudget } from "../src/policy/budget.js";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+import { RollingBudget, reserveAll, scopedBudgetKey, type ApplicableBudget } from "../src/policy/budget.js";
+import { FileBudgetStore } from "../src/stores/budget.js";
 
 describe("RollingBudget", () => {
   test("tracks spend inside a rolling window", () => {
@@ -22,6 +26,148 @@ describe("RollingBudget", () => {
     expect(r.ok).toBe(false);
     if (!r.ok) expect(r.total).toBe(90n);
   });
+
+  test("keeps spend history for the largest window when the window shrinks and grows again", () => {
+    const b = new RollingBudget(10_000, 100n);
+    b.record(30n, 1_000);
+    b.record(40n, 8_000);
+
+    b.reconfigure(2_000, 100n);
+    expect(b.getTotal(9_000)).toBe(40n);
+    b.reconfigure(10_000, 100n);
+    expect(b.getTotal(9_500)).toBe(70n);
+    b.reconfigure(20_000, 100n);
+    expect(b.getTotal(10_500)).toBe(70n);
+    expect(b.getTotal(11_500)).toBe(70n);
+  });
+});
+
+describe("RollingBudget reservations", () => {
+  test("holds count against the limit until committed or released", () => {
+    const b = new RollingBudget(10_000, 100n);
+
+    const first = b.reserve(60n, 1_000);
+    expect(first.ok).toBe(true);
+    expect(b.reserve(60n, 1_000)).toMatchObject({ ok: false, committed: 0n, reserved: 60n, total: 60n });
+
+    if (!first.ok) return;
+    expect(b.commit(first.reservation, 1_000)).toBe(true);
+    expect(b.snapshot(1_000)).toEqual({ committed: 60n, reserved: 0n });
+
+    // Committing twice is a no-op.
+    expect(b.commit(first.reservation, 1_000)).toBe(false);
+    expect(b.getTotal(1_000)).toBe(60n);
+  });
+
+  test("released holds free capacity without recording spend", () => {
+    const b = new RollingBudget(10_000, 100n);
+    const hold = b.reserve(90n, 1_000);
+    if (!hold.ok) throw new Error("expected reservation");
+
+    expect(b.release(hold.reservation)).toBe(true);
+    expect(b.snapshot(1_000)).toEqual({ committed: 0n, reserved: 0n });
+    expect(b.reserve(90n, 1_000).ok).toBe(true);
+  });
+});
+
+describe("reserveAll", () => {
+  const target = (id: string, limit: bigint): ApplicableBudget => ({ id, key: id, budget: new RollingBudget(10_000, limit) });
+
+  test("reserves on every budget or on none", () => {
+    const global = target("global", 100n);
+    const origin = target("origin", 50n);
+    origin.budget.record(40n, 1_000);
+
+    const r = reserveAll([global, origin], 20n, 1_000);
+    expect(r).toMatchObject({ ok: false, blockedBy: { id: "origin" }, total: 40n, remaining: 10n });
+    // The hold taken on the global budget was rolled back.
+    expect(global.budget.snapshot(1_000)).toEqual({ committed: 0n, reserved: 0n });
+
+    const ok = reserveAll([global, origin], 10n, 1_000);
+    expect(ok.ok).toBe(true);
+    expect(global.budget.getReserved()).toBe(10n);
+    expect(origin.budget.getReserved()).toBe(10n);
+  });
 });
 
+test("scopedBudgetKey buckets by origin or endpoint", () => {
+  const url = "https://api.example/v1/search?q=1";
+  expect(scopedBudgetKey({ scope: "global", limitUsd: 1, windowMs: 1 }, url)).toBe("global:global");
+  expect(scopedBudgetKey({ scope: "origin", id: "o", limitUsd: 1, windowMs: 1 }, url)).toBe("origin:o:https://api.example");
+  expect(scopedBudgetKey({ scope: "endpoint", limitUsd: 1, windowMs: 1 }, url)).toBe(
+    "endpoint:endpoint:https://api.example/v1/search",
+  );
+  expect(scopedBudgetKey({ scope: "origin", limitUsd: 1, windowMs: 1 }, undefined)).toBe("origin:origin:unknown");
+});
+
+describe("FileBudgetStore", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  function tempPath() {
+    dir = mkdtempSync(join(tmpdir(), "x402-guard-budget-"));
+    return join(dir, "spend.jsonl");
+  }
+
+  test("a restarted budget sees prior spend", () => {
+    const path = tempPath();
+    new RollingBudget(10_000, 100n, new FileBudgetStore(path)).record(90n, 1_000);
+
+    const restarted = new RollingBudget(10_000, 100n, new FileBudgetStore(path));
+    expect(restarted.getTotal(1_000)).toBe(90n);
+    expect(restarted.canSpend(11n, 1_000).ok).toBe(false);
+  });
+
+  test("budgets sharing one file share one limit", () => {
+    const path = tempPath();
+    const a = new RollingBudget(10_000, 100n, new FileBudgetStore(path));
+    const b = new RollingBudget(10_000, 100n, new FileBudgetStore(path));
+
+    a.record(60n, 1_000);
+    b.record(30n, 1_000);
+    expect(a.getTotal(1_000)).toBe(90n);
+    expect(b.canSpend(20n, 1_000).ok).toBe(false);
+  });
+
+  test("holds are visible to every budget sharing the file", () => {
+    const path = tempPath();
+    const a = new RollingBudget(10_000, 100n, new FileBudgetStore(path));
+    const b = new RollingBudget(10_000, 100n, new FileBudgetStore(path));
+
+    const held = a.reserve(60n, 1_000);
+    if (!held.ok) throw new Error("expected reservation");
+    expect(b.reserve(60n, 1_000)).toMatchObject({ ok: false, committed: 60n, reserved: 0n });
+
+    a.release(held.reservation);
+    const other = b.reserve(60n, 1_000);
+    if (!other.ok) throw new Error("expected reservation");
+    b.commit(other.reservation, 2_000);
+    expect(new FileBudgetStore(path).load()).toEqual([{ ts: 2_000, amountBaseUnits: 60n }]);
+    expect(a.snapshot(2_000)).toEqual({ committed: 60n, reserved: 0n });
+  });
+
+  test("inDirectory keeps one file per budget key", () => {
+    dir = mkdtempSync(join(tmpdir(), "x402-guard-budget-"));
+    const storeFor = FileBudgetStore.inDirectory(dir);
+    storeFor("origin:o:https://a.example").append({ ts: 1_000, amountBaseUnits: 5n });
 
+    expect(storeFor("origin:o:https://a.example").total(0)).toBe(5n);
+    expect(storeFor("origin:o:https://b.example").total(0)).toBe(0n);
+  });
+
+  test("prune compacts expired events and skips malformed lines", () => {
+    const path = tempPath();
+    const store = new FileBudgetStore(path);
+    store.append({ ts: 1_000, amountBaseUnits: 10n });
+    store.append({ ts: 5_000, amountBaseUnits: 20n });
+    appendFileSync(path, '{"ts":6000,"amountBa\n');
+
+    store.prune(2_000);
+    expect(store.load()).toEqual([{ ts: 5_000, amountBaseUnits: 20n }]);
+    expect(readFileSync(path, "utf8").trim().split("\n")).toHaveLength(1);
+  });
+});
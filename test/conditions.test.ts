@@ -1,5 +1,6 @@
 import { describe, expect, test } from "vitest";
 import { enforceResponseConditions } from "../src/policy/conditions.js";
+import { validatePolicy } from "../src/policy/policy.js";
 
 describe("enforceResponseConditions", () => {
   test("rejects non-2xx when requireHttp2xx is set", async () => {
@@ -37,3 +38,123 @@ describe("enforceResponseConditions", () => {
 });
 
 
+
+describe("responseSchema", () => {
+  const schema = {
+    type: "object",
+    required: ["result", "items"],
+    properties: {
+      result: { type: "string", minLength: 1 },
+      items: { type: "array", items: { $ref: "#/$defs/item" } },
+    },
+    $defs: { item: { type: "object", required: ["id"], properties: { id: { type: "integer", minimum: 0 } } } },
+  };
+
+  const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+  test("accepts a conforming body", async () => {
+    await expect(
+      enforceResponseConditions(json({ result: "42", items: [{ id: 1 }] }), Date.now(), { responseSchema: schema }),
+    ).resolves.toBeUndefined();
+  });
+
+  test("reports every violation by JSON pointer", async () => {
+    await expect(
+      enforceResponseConditions(json({ result: "", items: [{ id: 1 }, { id: -1 }, {}] }), Date.now(), {
+        responseSchema: schema,
+      }),
+    ).rejects.toMatchObject({
+      code: "RESPONSE_CONDITION_FAILED",
+      details: {
+        violations: [
+          { path: "/result", keyword: "minLength" },
+          { path: "/items/1/id", keyword: "minimum" },
+          { path: "/items/2/id", keyword: "required" },
+        ],
+      },
+    });
+  });
+
+  test("a wrong type fails where requiredJsonFields would pass", async () => {
+    await expect(
+      enforceResponseConditions(json({ result: 42, items: [] }), Date.now(), {
+        requiredJsonFields: ["result"],
+        responseSchema: schema,
+      }),
+    ).rejects.toMatchObject({ details: { violations: [{ path: "/result", keyword: "type" }] } });
+  });
+
+  test("multipleOf tolerates floating point error in decimal divisors", async () => {
+    const price = { type: "object", properties: { price: { type: "number", multipleOf: 0.1 } } };
+    await expect(enforceResponseConditions(json({ price: 0.3 }), Date.now(), { responseSchema: price })).resolves.toBeUndefined();
+    await expect(enforceResponseConditions(json({ price: 0.35 }), Date.now(), { responseSchema: price })).rejects.toMatchObject({
+      details: { violations: [{ path: "/price", keyword: "multipleOf" }] },
+    });
+  });
+
+  test("validatePolicy rejects unsupported keywords and bad references", () => {
+    expect(() =>
+      validatePolicy({ conditions: { responseSchema: { type: "string", format: "email" } } }),
+    ).toThrow("policy.conditions.responseSchema/format: unsupported keyword");
+    expect(() =>
+      validatePolicy({ conditions: { responseSchema: { $ref: "#/$defs/missing" } } }),
+    ).toThrow("unresolved reference");
+    expect(() => validatePolicy({ conditions: { responseSchema: { type: "text" } } })).toThrow(
+      "policy.conditions.responseSchema/type",
+    );
+  });
+});
+
+describe("predicates", () => {
+  const body = { status: "complete", confidence: 0.6, result: { items: [], "odd key": [1, 2] } };
+  const json = () => new Response(JSON.stringify(body), { status: 200 });
+
+  test("passes when every predicate holds", async () => {
+    await expect(
+      enforceResponseConditions(json(), Date.now(), {
+        predicates: [
+          { path: "$.status", op: "==", value: "complete" },
+          { path: '$.result["odd key"][1]', op: ">=", value: 2 },
+          { path: "$.status", op: "in", value: ["complete", "done"] },
+        ],
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  test("names each failed expression", async () => {
+    await expect(
+      enforceResponseConditions(json(), Date.now(), {
+        predicates: [
+          { path: "$.result.items", length: true, op: ">=", value: 1 },
+          { path: "$.confidence", op: ">=", value: 0.8 },
+          { path: "$.status", op: "==", value: "complete" },
+          { path: "$.missing.deep", op: "exists" },
+        ],
+      }),
+    ).rejects.toMatchObject({
+      code: "RESPONSE_CONDITION_FAILED",
+      details: {
+        failed: [
+          { expression: "length($.result.items) >= 1", reason: "got 0" },
+          { expression: "$.confidence >= 0.8", reason: "got 0.6" },
+          { expression: "$.missing.deep exists", reason: "path not found" },
+        ],
+      },
+    });
+  });
+
+  test("validatePolicy rejects malformed predicates", () => {
+    expect(() => validatePolicy({ conditions: { predicates: [{ path: "result", op: "exists" }] } })).toThrow(
+      'policy.conditions.predicates[0].path must start with "$"',
+    );
+    expect(() => validatePolicy({ conditions: { predicates: [{ path: "$.a[x]", op: "exists" }] } })).toThrow(
+      "invalid bracket segment",
+    );
+    expect(() => validatePolicy({ conditions: { predicates: [{ path: "$.a", op: ">=", value: "1" }] } })).toThrow(
+      "value must be a number",
+    );
+    expect(() => validatePolicy({ conditions: { predicates: [{ path: "$.a", op: "~" as any }] } })).toThrow(
+      "op must be one of",
+    );
+  });
+});
@@ -0,0 +1,795 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { encodePaymentResponseHeader } from "@x402/core/http";
+import { describe, expect, test } from "vitest";
+
+import { X402Guard } from "../src/guard.js";
+import { FileBudgetStore } from "../src/stores/budget.js";
+import { GuardError } from "../src/utils/errors.js";
+import type { ApprovalRequest } from "../src/policy/approval.js";
+import type { GuardDecision, PolicyChangedEvent } from "../src/receipt.js";
+import { fakeClient, paidApi, req, sleep } from "./helpers.js";
+
+const init: RequestInit = { method: "POST" };
+
+describe("X402Guard decision context", () => {
+  test("concurrent fetches each get their own selected/rejected/budget context", async () => {
+    const n = 40;
+    const api = paidApi({
+      accepts: (url) => {
+        const i = Number(new URL(url).searchParams.get("i"));
+        return [
+          req(10_000_000n, { payTo: `0xexpensive${i}` }),
+          req(BigInt(1_000 + i), { payTo: `0xcheap${i}` }),
+        ];
+      },
+      // Scramble interleavings so hooks of different calls overlap.
+      delayMs: () => Math.floor(Math.random() * 10),
+    });
+
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient({ signDelayMs: () => Math.floor(Math.random() * 10) }),
+      policy: { maxPerPaymentUsd: 0.1, budget: { limitUsd: 100, windowMs: 60_000 } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await Promise.all(
+      Array.from({ length: n }, (_, i) => guard.fetch(`https://api.test/v1/compute?i=${i}`, init)),
+    );
+
+    expect(records).toHaveLength(n);
+    for (const r of records) {
+      const i = Number(new URL(r.request.url!).searchParams.get("i"));
+      expect(r.decision).toBe("allow");
+      expect(r.payment?.selected?.payTo).toBe(`0xcheap${i}`);
+      expect(r.payment?.selected?.amount).toBe(String(1_000 + i));
+      expect(r.payment?.rejected?.map((x) => x.requirement.payTo)).toEqual([`0xexpensive${i}`]);
+
+      const before = BigInt(r.payment!.budget!.totalBeforeBaseUnits!);
+      const after = BigInt(r.payment!.budget!.totalAfterBaseUnits!);
+      expect(after - before >= BigInt(1_000 + i)).toBe(true);
+    }
+  });
+
+  test("a denied call does not leak context into the next call", async () => {
+    const api = paidApi({
+      accepts: (url) => [req(url.endsWith("expensive") ? 10_000_000n : 10n)],
+    });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { maxPerPaymentUsd: 0.1 },
+      onDecision: (r) => records.push(r),
+    });
+
+    await expect(guard.fetch("https://api.test/expensive", init)).rejects.toBeTruthy();
+    await guard.fetch("https://api.test/cheap", init);
+
+    expect(records.map((r) => r.decision)).toEqual(["deny", "allow"]);
+    expect(records[0]?.payment?.rejected).toHaveLength(1);
+    expect(records[1]?.payment?.rejected).toBeUndefined();
+    expect(records[1]?.payment?.selected?.amount).toBe("10");
+  });
+});
+
+describe("X402Guard budget reservations", () => {
+  test("concurrent requests cannot overshoot the budget window", async () => {
+    const api = paidApi({ accepts: () => [req(100_000n)], delayMs: () => 5 });
+    const guard = new X402Guard(api.fetch, {
+      // Slow signing widens the gap between the budget check and the spend record.
+      client: fakeClient({ signDelayMs: () => 20 }),
+      policy: { budget: { limitUsd: 0.3, windowMs: 60_000 } },
+    });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => guard.fetch("https://api.test/v1/compute", init)),
+    );
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(3);
+    expect(api.paidCount()).toBe(3);
+    for (const r of results) {
+      if (r.status === "rejected") expect(r.reason).toBeInstanceOf(GuardError);
+    }
+  });
+
+  test("concurrent requests cannot overshoot the balance floor", async () => {
+    const api = paidApi({ accepts: () => [req(4_000n)], delayMs: () => 5 });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient({ signDelayMs: () => 20 }),
+      payerAddress: "0x00000000000000000000000000000000000000a1",
+      // A slow read: every request waits on the same one, then checks against the same balance.
+      balanceProvider: { getBalance: async () => (await sleep(10), 10_000n) },
+      policy: { minRemainingBalanceUsd: 0.005 },
+    });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => guard.fetch("https://api.test/v1/compute", init)),
+    );
+
+    // 10_000 - 4_000 = 6_000 passes; a second 4_000 would leave 2_000 < 5_000.
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect(api.paidCount()).toBe(1);
+    for (const r of results) {
+      if (r.status === "rejected") expect(r.reason).toMatchObject({ code: "PAYMENT_BLOCKED_BALANCE_FLOOR" });
+    }
+  });
+
+  test("a failed signature releases its hold", async () => {
+    const api = paidApi({ accepts: () => [req(100_000n)] });
+    const client = fakeClient();
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client,
+      policy: { budget: { limitUsd: 0.1, windowMs: 60_000 } },
+      onDecision: (r) => records.push(r),
+    });
+    // Runs after the guard's hook, i.e. after the hold was taken.
+    let failNext = true;
+    client.onBeforePaymentCreation(async () => {
+      if (failNext) {
+        failNext = false;
+        return { abort: true, reason: "signer unavailable" };
+      }
+    });
+
+    await expect(guard.fetch("https://api.test/v1/compute", init)).rejects.toBeTruthy();
+    await guard.fetch("https://api.test/v1/compute", init);
+
+    expect(records[1]?.payment?.budget).toMatchObject({
+      committedBeforeBaseUnits: "0",
+      reservedBeforeBaseUnits: "0",
+      committedAfterBaseUnits: "100000",
+      reservedAfterBaseUnits: "0",
+    });
+  });
+});
+
+describe("X402Guard merchant policy", () => {
+  test("a spoofed payTo is never signed and surfaces a structured denial", async () => {
+    const api = paidApi({ accepts: () => [req(10n, { payTo: "0xattacker" })] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { merchants: { allowedPayTo: ["0xdeadbeef"] } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await expect(guard.fetch("https://api.test/v1/compute", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+    });
+    expect(api.paidCount()).toBe(0);
+    expect(records[0]?.payment?.rejected?.[0]?.reason).toBe("PAYTO_NOT_ALLOWED");
+  });
+});
+
+describe("X402Guard policy routing", () => {
+  const policy = {
+    maxPerPaymentUsd: 0.0001,
+    routes: [{ id: "inference", match: { path: "/v1/infer" }, policy: { maxPerPaymentUsd: 0.5 } }],
+  };
+
+  test("each route applies its own cap and is recorded on the decision", async () => {
+    const api = paidApi({ accepts: () => [req(100_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy, onDecision: (r) => records.push(r) });
+
+    await guard.fetch("https://api.test/v1/infer", init);
+    await expect(guard.fetch("https://api.test/v1/search", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+    });
+
+    expect(records.map((r) => [r.decision, r.route])).toEqual([
+      ["allow", "inference"],
+      ["deny", "default"],
+    ]);
+  });
+
+  test("routes with their own budget do not share the default budget", async () => {
+    const api = paidApi({ accepts: () => [req(100_000n)] });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: {
+        budget: { limitUsd: 0.1, windowMs: 60_000 },
+        routes: [{ id: "infer", match: { path: "/v1/infer" }, policy: { budget: { limitUsd: 0.1, windowMs: 60_000 } } }],
+      },
+    });
+
+    await guard.fetch("https://api.test/v1/search", init);
+    await guard.fetch("https://api.test/v1/infer", init);
+    await expect(guard.fetch("https://api.test/v1/infer", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BUDGET_WINDOW",
+    });
+  });
+
+  test("strict routing denies unmatched requests before anything is sent", async () => {
+    let calls = 0;
+    const api = paidApi({ accepts: () => [req(10n)] });
+    const fetchImpl = (async (input: RequestInfo | URL, i?: RequestInit) => {
+      calls += 1;
+      return api.fetch(input, i);
+    }) as typeof fetch;
+    const guard = new X402Guard(fetchImpl, { client: fakeClient(), policy: { ...policy, strictRouting: true } });
+
+    await expect(guard.fetch("https://api.test/v1/search", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ROUTE",
+    });
+    expect(calls).toBe(0);
+  });
+});
+
+describe("X402Guard scoped budgets", () => {
+  test("a payment needs room in the global, per-origin and per-endpoint budgets", async () => {
+    const api = paidApi({ accepts: () => [req(100_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: {
+        budgets: [
+          { scope: "global", limitUsd: 0.5, windowMs: 60_000 },
+          { scope: "origin", limitUsd: 0.3, windowMs: 60_000 },
+          { scope: "endpoint", limitUsd: 0.1, windowMs: 60_000 },
+        ],
+      },
+      onDecision: (r) => records.push(r),
+    });
+
+    await guard.fetch("https://a.test/one", init);
+    // Same endpoint again: the endpoint budget ($0.10) is exhausted.
+    await expect(guard.fetch("https://a.test/one", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BUDGET_WINDOW",
+      details: { budget: "endpoint", budgetKey: "endpoint:endpoint:https://a.test/one", remainingBaseUnits: "0" },
+    });
+
+    await guard.fetch("https://a.test/two", init);
+    await guard.fetch("https://a.test/three", init);
+    // Fourth endpoint on the same origin: the origin budget ($0.30) is exhausted.
+    await expect(guard.fetch("https://a.test/four", init)).rejects.toMatchObject({
+      details: { budget: "origin", remainingBaseUnits: "0" },
+    });
+
+    await guard.fetch("https://b.test/one", init);
+    await guard.fetch("https://b.test/two", init);
+    // Five payments total: the global budget ($0.50) is exhausted even on a fresh origin.
+    await expect(guard.fetch("https://c.test/one", init)).rejects.toMatchObject({
+      details: { budget: "global", remainingBaseUnits: "0" },
+    });
+    expect(api.paidCount()).toBe(5);
+
+    const allowed = records.find((r) => r.decision === "allow");
+    expect(allowed?.payment?.budgets?.map((b) => b.id)).toEqual(["global", "origin", "endpoint"]);
+  });
+
+  test("scoped budgets in a file store survive a restart; a single store instance is rejected", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "x402-guard-scoped-"));
+    try {
+      const api = paidApi({ accepts: () => [req(100_000n)] });
+      const policy = { budgets: [{ scope: "origin" as const, limitUsd: 0.1, windowMs: 60_000 }] };
+      const guardOver = () => new X402Guard(api.fetch, { client: fakeClient(), policy, budgetStore: FileBudgetStore.inDirectory(dir) });
+
+      await guardOver().fetch("https://a.test/one", init);
+      await expect(guardOver().fetch("https://a.test/two", init)).rejects.toMatchObject({
+        code: "PAYMENT_BLOCKED_BUDGET_WINDOW",
+        details: { budget: "origin" },
+      });
+      expect(api.paidCount()).toBe(1);
+
+      const single = new FileBudgetStore(join(dir, "spend.jsonl"));
+      expect(() => new X402Guard(api.fetch, { client: fakeClient(), policy, budgetStore: single })).toThrow(
+        expect.objectContaining({ code: "POLICY_INVALID" }),
+      );
+      const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: {}, budgetStore: single });
+      expect(() => guard.updatePolicy({ routes: [{ id: "r", match: {}, policy: { budget: { limitUsd: 1, windowMs: 1_000 } } }] })).toThrow(
+        expect.objectContaining({ code: "POLICY_INVALID" }),
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("X402Guard rate limits", () => {
+  test("caps the number of payments globally and per origin, whatever their amount", async () => {
+    const api = paidApi({ accepts: () => [req(10n)] });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: {
+        budget: { limitUsd: 1, windowMs: 60_000 },
+        rateLimits: [
+          { scope: "global", maxPayments: 3, windowMs: 60_000 },
+          { scope: "origin", maxPayments: 2, windowMs: 60_000 },
+        ],
+      },
+    });
+
+    await guard.fetch("https://a.test/one", init);
+    await guard.fetch("https://a.test/two", init);
+    const before = Date.now();
+    const blocked = await guard.fetch("https://a.test/three", init).catch((e: GuardError) => e);
+    expect(blocked).toMatchObject({
+      code: "PAYMENT_BLOCKED_RATE_LIMIT",
+      details: { rateLimit: "origin", rateLimitKey: "origin:origin:https://a.test", count: 2, maxPayments: 2 },
+    });
+    const nextAllowedAt = Date.parse((blocked as GuardError).details!.nextAllowedAt as string);
+    expect(nextAllowedAt).toBeGreaterThanOrEqual(before + 60_000 - 1_000);
+
+    await guard.fetch("https://b.test/one", init);
+    await expect(guard.fetch("https://c.test/one", init)).rejects.toMatchObject({ details: { rateLimit: "global", count: 3 } });
+    expect(api.paidCount()).toBe(3);
+  });
+});
+
+describe("X402Guard circuit breaker", () => {
+  test("stops paying an endpoint after repeated condition failures, then allows one trial", async () => {
+    let healthy = false;
+    const api = paidApi({
+      accepts: () => [req(1_000n)],
+      respond: () => (healthy ? Response.json({ ok: true }) : new Response("oops", { status: 500 })),
+    });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: {
+        conditions: { requireHttp2xx: true },
+        circuitBreaker: { failureThreshold: 2, cooldownMs: 50 },
+      },
+      onDecision: (r) => records.push(r),
+    });
+
+    for (let i = 0; i < 2; i += 1) {
+      await expect(guard.fetch("https://api.test/flaky", init)).rejects.toMatchObject({
+        code: "RESPONSE_CONDITION_FAILED",
+      });
+    }
+    await expect(guard.fetch("https://api.test/flaky", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_CIRCUIT_OPEN",
+      details: { endpoint: "https://api.test/flaky", state: "open", failures: 2 },
+    });
+    expect(api.paidCount()).toBe(2);
+    expect(records[2]?.circuit).toMatchObject({ key: "https://api.test/flaky", state: "open", failures: 2 });
+
+    // Other endpoints are unaffected.
+    healthy = true;
+    await guard.fetch("https://api.test/other", init);
+
+    await sleep(60);
+    await guard.fetch("https://api.test/flaky", init);
+    expect(api.paidCount()).toBe(4);
+    expect(records.at(-1)).toMatchObject({ decision: "allow", circuit: { state: "closed", failures: 0 } });
+  });
+});
+
+describe("X402Guard paid-but-rejected records", () => {
+  const settlement = { success: true, transaction: "0xtx1", network: "eip155:84532" as const, payer: "0xpayer" };
+
+  test("a condition failure says the payment was spent and carries the settlement", async () => {
+    const api = paidApi({
+      accepts: () => [req(1_000n)],
+      respond: () => {
+        const header = encodePaymentResponseHeader({ ...settlement, requirements: req(1_000n) });
+        return Response.json({}, { headers: { "PAYMENT-RESPONSE": header } });
+      },
+    });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { conditions: { requiredJsonFields: ["result"] } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({ code: "RESPONSE_CONDITION_FAILED" });
+    expect(records[0]).toMatchObject({
+      decision: "deny",
+      payment: { paidUsdMicros: "1000", spent: true, settlement },
+    });
+  });
+
+  test("a payment the server answers with 402 again is not spent", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)], respond: () => new Response(null, { status: 402 }) });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { conditions: { requireHttp2xx: true } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({ code: "RESPONSE_CONDITION_FAILED" });
+    expect(records[0]?.payment).toMatchObject({ paidUsdMicros: "1000", spent: false });
+    expect(records[0]?.payment?.settlement).toBeUndefined();
+  });
+
+  test("a request blocked before signing has no spent flag", async () => {
+    const api = paidApi({ accepts: () => [req(1_000_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { maxPerPaymentUsd: 0.01 },
+      onDecision: (r) => records.push(r),
+    });
+
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toBeInstanceOf(GuardError);
+    expect(records[0]?.payment?.spent).toBeUndefined();
+  });
+});
+
+describe("X402Guard fetchWithRetry", () => {
+  const noDelay = { initialMs: 0 };
+
+  test("retries condition failures up to maxPaidAttempts and links attempts in one aggregate record", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)], respond: () => Response.json({ ok: true }) });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { conditions: { requiredJsonFields: ["result"] } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await expect(
+      guard.fetchWithRetry("https://api.test/flaky", init, { maxPaidAttempts: 3, backoff: noDelay }),
+    ).rejects.toMatchObject({ code: "RESPONSE_CONDITION_FAILED" });
+    expect(api.paidCount()).toBe(3);
+
+    expect(records).toHaveLength(4);
+    const aggregate = records.at(-1)!;
+    expect(aggregate).toMatchObject({
+      decision: "deny",
+      code: "RESPONSE_CONDITION_FAILED",
+      retry: { paidAttempts: 3, totalPaidUsdMicros: "3000" },
+    });
+    expect(aggregate.retry?.attempts.map((a) => [a.index, a.code, a.paidUsdMicros])).toEqual([
+      [1, "RESPONSE_CONDITION_FAILED", "1000"],
+      [2, "RESPONSE_CONDITION_FAILED", "1000"],
+      [3, "RESPONSE_CONDITION_FAILED", "1000"],
+    ]);
+    expect(records.slice(0, 3).map((r) => r.attempt)).toEqual([1, 2, 3].map((index) => ({ id: aggregate.retry!.id, index })));
+  });
+
+  test("retries 5xx and returns the first good response", async () => {
+    let calls = 0;
+    const api = paidApi({
+      accepts: () => [req(1_000n)],
+      respond: () => (++calls < 2 ? new Response("busy", { status: 503 }) : Response.json({ result: "ok" })),
+    });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: {}, onDecision: (r) => records.push(r) });
+
+    const res = await guard.fetchWithRetry("https://api.test/x", init, { maxPaidAttempts: 3, backoff: noDelay });
+    expect(res.status).toBe(200);
+    expect(api.paidCount()).toBe(2);
+    expect(records.at(-1)).toMatchObject({ decision: "allow", retry: { paidAttempts: 2 } });
+  });
+
+  test("never retries a policy block", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)], respond: () => Response.json({}) });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { budget: { limitUsd: 0.0015, windowMs: 60_000 }, conditions: { requiredJsonFields: ["result"] } },
+    });
+
+    // Attempt 1 pays and fails its condition; attempt 2 is blocked by the budget and ends the loop.
+    await expect(
+      guard.fetchWithRetry("https://api.test/x", init, { maxPaidAttempts: 5, maxAttempts: 5, backoff: noDelay }),
+    ).rejects.toMatchObject({ code: "PAYMENT_BLOCKED_BUDGET_WINDOW" });
+    expect(api.paidCount()).toBe(1);
+  });
+
+  test("maxTotalUsd blocks the attempt that would exceed it before signing", async () => {
+    const api = paidApi({ accepts: () => [req(4_000n)], respond: () => new Response("", { status: 500 }) });
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: {} });
+
+    await expect(
+      guard.fetchWithRetry("https://api.test/x", init, { maxPaidAttempts: 5, maxTotalUsd: 0.01, backoff: noDelay }),
+    ).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_RETRY_LIMIT",
+      details: { attempt: 3, remainingUsdMicros: "2000", nextUsdMicros: "4000" },
+    });
+    expect(api.paidCount()).toBe(2);
+  });
+});
+
+describe("X402Guard shadow mode", () => {
+  test("shadow enforcement lets payments and responses through but records wouldDeny", async () => {
+    const api = paidApi({
+      accepts: (url) => [req(url.endsWith("expensive") ? 500_000n : 1_000n)],
+      respond: (url) => Response.json(url.endsWith("junk") ? { ok: true } : { result: "42" }),
+    });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      enforcement: "shadow",
+      policy: { maxPerPaymentUsd: 0.1, conditions: { requiredJsonFields: ["result"] } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await guard.fetch("https://api.test/expensive", init);
+    const junk = await guard.fetch("https://api.test/junk", init);
+    await guard.fetch("https://api.test/fine", init);
+
+    expect(await junk.json()).toEqual({ ok: true });
+    expect(api.paidCount()).toBe(3);
+    expect(records.map((r) => [r.decision, r.enforcement, r.wouldDeny?.code])).toEqual([
+      ["allow", "shadow", "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS"],
+      ["allow", "shadow", "RESPONSE_CONDITION_FAILED"],
+      ["allow", "shadow", undefined],
+    ]);
+  });
+
+  test("shadow budgets only count payments the policy would have allowed", async () => {
+    const api = paidApi({ accepts: () => [req(100_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      enforcement: "shadow",
+      policy: { budget: { limitUsd: 0.25, windowMs: 60_000 } },
+      onDecision: (r) => records.push(r),
+    });
+
+    for (let i = 0; i < 4; i += 1) await guard.fetch("https://api.test/x", init);
+
+    expect(api.paidCount()).toBe(4);
+    expect(records.map((r) => r.wouldDeny?.code)).toEqual([
+      undefined,
+      undefined,
+      "PAYMENT_BLOCKED_BUDGET_WINDOW",
+      "PAYMENT_BLOCKED_BUDGET_WINDOW",
+    ]);
+    expect(records[3]?.wouldDeny?.details).toMatchObject({ totalBaseUnits: "200000" });
+  });
+
+  test("shadow evaluation reports payments above the approval threshold without asking anyone", async () => {
+    const api = paidApi({ accepts: (url) => [req(url.endsWith("big") ? 200_000n : 50_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      enforcement: "shadow",
+      policy: { approval: { thresholdUsd: 0.1 }, budget: { limitUsd: 0.25, windowMs: 60_000 } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await guard.fetch("https://api.test/big", init);
+    // The big payment was not approved, so the shadow budget still has room for both small ones.
+    await guard.fetch("https://api.test/small", init);
+    await guard.fetch("https://api.test/small", init);
+
+    expect(api.paidCount()).toBe(3);
+    expect(records.map((r) => r.wouldDeny?.code)).toEqual(["PAYMENT_BLOCKED_APPROVAL_DENIED", undefined, undefined]);
+    expect(records[0]?.wouldDeny?.details).toMatchObject({ decision: "not_requested", thresholdUsd: 0.1, amountUsdMicros: "200000" });
+  });
+
+  test("a shadow policy is evaluated next to the enforced one", async () => {
+    const api = paidApi({ accepts: (url) => [req(url.endsWith("big") ? 200_000n : 50_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { maxPerPaymentUsd: 0.15 },
+      shadowPolicy: { maxPerPaymentUsd: 0.01 },
+      onDecision: (r) => records.push(r),
+    });
+
+    await guard.fetch("https://api.test/small", init);
+    await expect(guard.fetch("https://api.test/big", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+    });
+
+    expect(api.paidCount()).toBe(1);
+    expect(records[0]).toMatchObject({
+      decision: "allow",
+      shadow: { route: "default", wouldDeny: { code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS" } },
+    });
+    expect(records[0]?.enforcement).toBeUndefined();
+    expect(records[1]).toMatchObject({ decision: "deny", shadow: { wouldDeny: { code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS" } } });
+  });
+
+  test("an invalid shadow policy is rejected up front", () => {
+    expect(
+      () => new X402Guard(fetch, { client: fakeClient(), policy: {}, shadowPolicy: { maxPerPaymentUsd: -1 } }),
+    ).toThrow(GuardError);
+  });
+});
+
+describe("X402Guard approval", () => {
+  test("payments above the threshold wait for approval; the approver is recorded", async () => {
+    const api = paidApi({ accepts: (url) => [req(url.endsWith("big") ? 500_000n : 1_000n)] });
+    const records: GuardDecision[] = [];
+    const asked: ApprovalRequest[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { approval: { thresholdUsd: 0.1 }, budget: { limitUsd: 1, windowMs: 60_000 } },
+      requestApproval: async (request) => {
+        asked.push(request);
+        return { decision: "approve", approver: "alice@example.com" };
+      },
+      onDecision: (r) => records.push(r),
+    });
+
+    await guard.fetch("https://api.test/small", init);
+    await guard.fetch("https://api.test/big", init);
+
+    expect(asked).toHaveLength(1);
+    expect(asked[0]).toMatchObject({
+      url: "https://api.test/big",
+      amountUsdMicros: "500000",
+      requirement: { amount: "500000" },
+      budgets: [{ id: "default", limitBaseUnits: "1000000", committedBaseUnits: "1000", reservedBaseUnits: "500000" }],
+    });
+    expect(records[0]?.approval).toBeUndefined();
+    expect(records[1]).toMatchObject({ decision: "allow", approval: { decision: "approve", approver: "alice@example.com" } });
+  });
+
+  test("denials and timeouts block the payment and release its budget hold", async () => {
+    const api = paidApi({ accepts: () => [req(500_000n)] });
+    const records: GuardDecision[] = [];
+    let answer: "deny" | "slow" = "deny";
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { approval: { thresholdUsd: 0.1, timeoutMs: 20 }, budget: { limitUsd: 0.6, windowMs: 60_000 } },
+      requestApproval: async () => {
+        if (answer === "slow") await sleep(200);
+        return { decision: "deny", approver: "bob", reason: "too pricey" };
+      },
+      onDecision: (r) => records.push(r),
+    });
+
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_APPROVAL_DENIED",
+      details: { decision: "deny", approver: "bob", reason: "too pricey" },
+    });
+    answer = "slow";
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_APPROVAL_DENIED",
+      // The first hold was released: a budget block would have come first otherwise.
+      details: { decision: "timeout" },
+    });
+    expect(api.paidCount()).toBe(0);
+    expect(records.map((r) => r.approval?.decision)).toEqual(["deny", "timeout"]);
+  });
+
+  test("an approval policy without requestApproval is rejected", () => {
+    expect(() => new X402Guard(fetch, { client: fakeClient(), policy: { approval: { thresholdUsd: 1 } } })).toThrow(
+      GuardError,
+    );
+  });
+});
+
+describe("X402Guard updatePolicy", () => {
+  test("new limits apply to the spend already recorded, and the change is emitted as a diff", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    const events: PolicyChangedEvent[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { budget: { limitUsd: 0.002, windowMs: 60_000 } },
+      onPolicyChange: (e) => events.push(e),
+    });
+
+    await guard.fetch("https://api.test/x", init);
+    await guard.fetch("https://api.test/x", init);
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({ code: "PAYMENT_BLOCKED_BUDGET_WINDOW" });
+
+    // A longer window keeps counting the earlier spend; only the higher limit makes room.
+    guard.updatePolicy({ budget: { limitUsd: 0.002, windowMs: 120_000 } });
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({ code: "PAYMENT_BLOCKED_BUDGET_WINDOW" });
+    const changes = guard.updatePolicy({ budget: { limitUsd: 0.003, windowMs: 120_000 } }, { source: "ops" });
+    await guard.fetch("https://api.test/x", init);
+    expect(api.paidCount()).toBe(3);
+
+    expect(changes).toEqual([{ path: "budget.limitUsd", before: 0.002, after: 0.003 }]);
+    expect(events.map((e) => [e.source, e.changes.map((c) => c.path)])).toEqual([
+      [undefined, ["budget.windowMs"]],
+      ["ops", ["budget.limitUsd"]],
+    ]);
+    expect(guard.updatePolicy({ budget: { limitUsd: 0.003, windowMs: 120_000 } })).toEqual([]);
+    expect(events).toHaveLength(2);
+  });
+
+  test("an invalid update changes nothing", async () => {
+    const api = paidApi({ accepts: () => [req(50_000n)] });
+    const events: PolicyChangedEvent[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { maxPerPaymentUsd: 0.01 },
+      onPolicyChange: (e) => events.push(e),
+    });
+
+    expect(() => guard.updatePolicy({ maxPerPaymentUsd: -1 })).toThrow(GuardError);
+    // Valid on its own, but no approver is configured.
+    expect(() => guard.updatePolicy({ maxPerPaymentUsd: 1, approval: { thresholdUsd: 0.01 } })).toThrow(
+      expect.objectContaining({ code: "POLICY_INVALID", details: { error: expect.stringMatching(/requestApproval/) } }),
+    );
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+    });
+    expect(events).toEqual([]);
+  });
+
+  test("a request in flight finishes under the policy it started with", async () => {
+    const api = paidApi({ accepts: () => [req(50_000n)], delayMs: () => 30 });
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: { maxPerPaymentUsd: 1 } });
+
+    const inFlight = guard.fetch("https://api.test/x", init);
+    await sleep(10);
+    guard.updatePolicy({ maxPerPaymentUsd: 0.01 });
+
+    await expect(inFlight).resolves.toMatchObject({ status: 200 });
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+    });
+  });
+});
+
+describe("X402Guard quote", () => {
+  test("reports the offer, the selection and the rejections without paying", async () => {
+    const api = paidApi({ accepts: () => [req(500_000n), req(20_000n, { payTo: "0xother" }), req(10_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { maxPerPaymentUsd: 0.1, selectCheapest: true, budget: { limitUsd: 1, windowMs: 60_000 } },
+      onDecision: (r) => records.push(r),
+    });
+
+    const quote = await guard.quote("https://api.test/x", init);
+    expect(quote).toMatchObject({
+      route: "default",
+      status: 402,
+      paymentRequired: true,
+      x402Version: 2,
+      payable: true,
+      selected: { requirement: { amount: "10000" }, usdMicros: "10000" },
+      rejected: [{ reason: "ABOVE_PER_PAYMENT_CAP", requirement: { amount: "500000" } }],
+      budgets: [{ id: "default", limitBaseUnits: "1000000", committedBaseUnits: "0", remainingBaseUnits: "1000000" }],
+    });
+    expect(quote.options.map((o) => o.usdMicros)).toEqual(["500000", "20000", "10000"]);
+    expect(quote.blocked).toBeUndefined();
+    expect(api.paidCount()).toBe(0);
+    expect(records).toEqual([]);
+  });
+
+  test("says which check would block, and that a free response needs no payment", async () => {
+    const api = paidApi({ accepts: (url) => (url.endsWith("/free") ? [] : [req(600_000n)]) });
+    const guard = new X402Guard(
+      async (input, init) => (String(input).endsWith("/free") ? Response.json({ ok: true }) : api.fetch(input, init)),
+      { client: fakeClient(), policy: { budget: { limitUsd: 1, windowMs: 60_000 } } },
+    );
+
+    await guard.fetch("https://api.test/x", init);
+    await expect(guard.quote("https://api.test/x", init)).resolves.toMatchObject({
+      payable: false,
+      selected: { usdMicros: "600000" },
+      blocked: { code: "PAYMENT_BLOCKED_BUDGET_WINDOW", details: { remainingBaseUnits: "400000" } },
+    });
+    await expect(guard.quote("https://api.test/free", init)).resolves.toMatchObject({
+      status: 200,
+      paymentRequired: false,
+      payable: true,
+      options: [],
+    });
+    expect(api.paidCount()).toBe(1);
+  });
+
+  test("in shadow mode reports what the observed policy and a candidate policy would block", async () => {
+    const api = paidApi({ accepts: () => [req(200_000n)] });
+    const observed = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      enforcement: "shadow",
+      policy: { budget: { limitUsd: 0.3, windowMs: 60_000 } },
+    });
+
+    expect(await observed.quote("https://api.test/x", init)).toMatchObject({ payable: true, enforcement: "shadow" });
+    expect((await observed.quote("https://api.test/x", init)).wouldDeny).toBeUndefined();
+    // The shadow budget counts the payment; the next one would go over it.
+    await observed.fetch("https://api.test/x", init);
+    await expect(observed.quote("https://api.test/x", init)).resolves.toMatchObject({
+      payable: true,
+      enforcement: "shadow",
+      wouldDeny: { code: "PAYMENT_BLOCKED_BUDGET_WINDOW" },
+    });
+
+    const candidate = new X402Guard(api.fetch, { client: fakeClient(), policy: {}, shadowPolicy: { maxPerPaymentUsd: 0.1 } });
+    const quote = await candidate.quote("https://api.test/x", init);
+    expect(quote).toMatchObject({
+      payable: true,
+      shadow: { route: "default", wouldDeny: { code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS" } },
+    });
+    expect(quote.enforcement).toBeUndefined();
+  });
+});
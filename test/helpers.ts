@@ -0,0 +1,73 @@
+import { x402Client } from "@x402/fetch";
+import { encodePaymentRequiredHeader } from "@x402/core/http";
+import type { PaymentRequirements } from "@x402/core/types";
+
+/**
+ * Test doubles for guard-level tests: an in-process x402 "resource server" (as a fetch impl)
+ * and a fake scheme client that "signs" without any chain access.
+ */
+
+export const BASE_SEPOLIA_USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+export function req(amountBaseUnits: bigint, overrides: Partial<PaymentRequirements> = {}): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network: "eip155:84532",
+    asset: BASE_SEPOLIA_USDC,
+    amount: amountBaseUnits.toString(),
+    payTo: "0xdeadbeef",
+    maxTimeoutSeconds: 60,
+    extra: {},
+    ...overrides,
+  };
+}
+
+export function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+export function fakeClient(opts: { signDelayMs?: () => number } = {}): x402Client {
+  return new x402Client().register("eip155:*", {
+    scheme: "exact",
+    async createPaymentPayload(x402Version: number, requirements: PaymentRequirements) {
+      await sleep(opts.signDelayMs?.() ?? 0);
+      return { x402Version, payload: { signature: `signed:${requirements.payTo}:${requirements.amount}` } };
+    },
+  });
+}
+
+export type PaidApi = {
+  fetch: typeof fetch;
+  /** Number of requests that arrived with a payment signature header. */
+  paidCount: () => number;
+};
+
+/**
+ * Responds 402 to unpaid requests (advertising `accepts(url)`), and `respond(url)` to paid ones.
+ */
+export function paidApi(opts: {
+  accepts: (url: string) => PaymentRequirements[];
+  respond?: (url: string) => Response | Promise<Response>;
+  delayMs?: () => number;
+}): PaidApi {
+  let paid = 0;
+  const impl = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    await sleep(opts.delayMs?.() ?? 0);
+
+    const headers = new Headers(init?.headers);
+    if (!headers.has("PAYMENT-SIGNATURE")) {
+      const header = encodePaymentRequiredHeader({
+        x402Version: 2,
+        resource: { url, description: "test", mimeType: "application/json" },
+        accepts: opts.accepts(url),
+      });
+      return new Response(null, { status: 402, headers: { "PAYMENT-REQUIRED": header } });
+    }
+
+    paid += 1;
+    if (opts.respond) return opts.respond(url);
+    return Response.json({ ok: true, result: "42" });
+  };
+  return { fetch: impl as typeof fetch, paidCount: () => paid };
+}
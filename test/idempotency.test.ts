@@ -0,0 +1,211 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+
+import { X402Guard } from "../src/guard.js";
+import { DEFAULT_IDEMPOTENCY_TTL_MS, IDEMPOTENCY_PENDING_LEASE_MS, deriveIdempotencyKey } from "../src/policy/idempotency.js";
+import type { GuardDecision } from "../src/receipt.js";
+import { FileIdempotencyStore, InMemoryIdempotencyStore, type IdempotencyEntry } from "../src/stores/idempotency.js";
+import { fakeClient, paidApi, req, sleep } from "./helpers.js";
+
+const init: RequestInit = { method: "POST", body: JSON.stringify({ prompt: "x" }) };
+
+describe("deriveIdempotencyKey", () => {
+  test("depends on method, URL and body", () => {
+    const a = deriveIdempotencyKey({ url: "https://api.test/x", method: "POST" }, "body");
+    expect(a).toBe(deriveIdempotencyKey({ url: "https://api.test/x", method: "post" }, "body"));
+    expect(a).not.toBe(deriveIdempotencyKey({ url: "https://api.test/x", method: "POST" }, "other"));
+    expect(a).not.toBe(deriveIdempotencyKey({ url: "https://api.test/y", method: "POST" }, "body"));
+    expect(a).toBe(deriveIdempotencyKey({ url: "https://api.test/x", method: "POST" }, new TextEncoder().encode("body")));
+  });
+
+  test("returns null for bodies it cannot read without consuming", () => {
+    expect(deriveIdempotencyKey({ url: "https://api.test/x" }, new Blob(["x"]))).toBeNull();
+  });
+});
+
+describe("idempotency stores", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  test("a live entry blocks a claim until it expires", () => {
+    const store = new InMemoryIdempotencyStore();
+    expect(store.claim({ key: "k", state: "pending", at: 0, expiresAt: 100 }, 0)).toBeNull();
+    expect(store.claim({ key: "k", state: "pending", at: 50, expiresAt: 150 }, 50)).toMatchObject({ at: 0 });
+    expect(store.claim({ key: "k", state: "pending", at: 100, expiresAt: 200 }, 100)).toBeNull();
+  });
+
+  test("a file store survives a restart", () => {
+    dir = mkdtempSync(join(tmpdir(), "x402-guard-idem-"));
+    const path = join(dir, "keys.json");
+    new FileIdempotencyStore(path).put({ key: "k", state: "paid", at: 0, expiresAt: Date.now() + 60_000 });
+
+    const restarted = new FileIdempotencyStore(path);
+    expect(restarted.claim({ key: "k", state: "pending", at: 1, expiresAt: 2 }, Date.now())).toMatchObject({ state: "paid" });
+    const claim = { key: "j", state: "pending" as const, at: 1, expiresAt: Date.now() + 60_000 };
+    expect(restarted.claim(claim, Date.now())).toBeNull();
+    restarted.release(claim);
+    expect(new FileIdempotencyStore(path).claim({ key: "j", state: "pending", at: 2, expiresAt: 3 }, 0)).toBeNull();
+  });
+
+  test("release drops only the claim it is given, not an entry written since", () => {
+    const store = new InMemoryIdempotencyStore();
+    const claim = { key: "k", state: "pending" as const, at: 0, expiresAt: 100 };
+    expect(store.claim(claim, 0)).toBeNull();
+    store.put({ key: "k", state: "paid", at: 10, expiresAt: 1_000 });
+    store.release(claim);
+    expect(store.claim({ key: "k", state: "pending", at: 20, expiresAt: 120 }, 20)).toMatchObject({ state: "paid" });
+  });
+});
+
+describe("X402Guard idempotency", () => {
+  test("a caller key is paid once; a repeat is blocked unless explicitly allowed", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { idempotency: { ttlMs: 60_000 } },
+      onDecision: (r) => records.push(r),
+    });
+
+    await guard.fetch("https://api.test/x", init, { idempotencyKey: "order-1" });
+    await expect(guard.fetch("https://api.test/x", init, { idempotencyKey: "order-1" })).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_DUPLICATE",
+      details: { idempotencyKey: "order-1", derived: false, state: "paid" },
+    });
+    await guard.fetch("https://api.test/x", init, { idempotencyKey: "order-2" });
+    await guard.fetch("https://api.test/x", init, { idempotencyKey: "order-1", allowRepeatPayment: true });
+
+    expect(api.paidCount()).toBe(3);
+    expect(records.map((r) => r.idempotency?.key)).toEqual(["order-1", "order-1", "order-2", "order-1"]);
+    expect(records[3]?.idempotency?.repeatAllowed).toBe(true);
+  });
+
+  test("derived keys block the same method + URL + body", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { idempotency: { ttlMs: 60_000, deriveKey: true } },
+    });
+
+    await guard.fetch("https://api.test/x", init);
+    await expect(guard.fetch("https://api.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_DUPLICATE",
+      details: { derived: true },
+    });
+    await guard.fetch("https://api.test/x", { ...init, body: JSON.stringify({ prompt: "y" }) });
+    expect(api.paidCount()).toBe(2);
+  });
+
+  test("concurrent requests with one key pay once", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)], delayMs: () => 5 });
+    const guard = new X402Guard(api.fetch, { client: fakeClient({ signDelayMs: () => 10 }), policy: {} });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => guard.fetch("https://api.test/x", init, { idempotencyKey: "k" })),
+    );
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect(api.paidCount()).toBe(1);
+  });
+
+  test("a claim that did not lead to a payment is released", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { budget: { limitUsd: 0.0005, windowMs: 60_000 } },
+    });
+
+    await expect(guard.fetch("https://api.test/x", init, { idempotencyKey: "k" })).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BUDGET_WINDOW",
+    });
+    // Still a budget block, not a duplicate: the first attempt never paid.
+    await expect(guard.fetch("https://api.test/x", init, { idempotencyKey: "k" })).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BUDGET_WINDOW",
+    });
+  });
+
+  test("a pending claim gets a short lease; only the paid entry keeps the full TTL", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    const claims: IdempotencyEntry[] = [];
+    const puts: IdempotencyEntry[] = [];
+    const store = new InMemoryIdempotencyStore();
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      idempotencyStore: {
+        claim: (entry, now) => (claims.push(entry), store.claim(entry, now)),
+        put: (entry) => (puts.push(entry), store.put(entry)),
+        release: (entry) => store.release(entry),
+      },
+      policy: {},
+    });
+
+    await guard.fetch("https://api.test/x", init, { idempotencyKey: "k" });
+    expect(claims[0]!.expiresAt - claims[0]!.at).toBe(IDEMPOTENCY_PENDING_LEASE_MS);
+    expect(puts[0]!.expiresAt - puts[0]!.at).toBe(DEFAULT_IDEMPOTENCY_TTL_MS);
+  });
+
+  test("an unpaid claim does not erase a repeat payment recorded meanwhile", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    let approvals = 0;
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { approval: { thresholdUsd: 0.0001 } },
+      // The first request waits, then is denied; the repeat is approved and pays in the meantime.
+      requestApproval: async () => {
+        if (++approvals > 1) return { decision: "approve", approver: "ops" };
+        await sleep(20);
+        return { decision: "deny" };
+      },
+    });
+
+    const first = guard.fetch("https://api.test/x", init, { idempotencyKey: "k" });
+    await sleep(5);
+    await guard.fetch("https://api.test/x", init, { idempotencyKey: "k", allowRepeatPayment: true });
+    await expect(first).rejects.toMatchObject({ code: "PAYMENT_BLOCKED_APPROVAL_DENIED" });
+
+    await expect(guard.fetch("https://api.test/x", init, { idempotencyKey: "k" })).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_DUPLICATE",
+      details: { state: "paid" },
+    });
+    expect(api.paidCount()).toBe(1);
+  });
+
+  test("fetchWithRetry attempts share the key; re-issuing the whole call is blocked", async () => {
+    let calls = 0;
+    const api = paidApi({
+      accepts: () => [req(1_000n)],
+      respond: () => (++calls < 2 ? new Response("", { status: 502 }) : Response.json({ result: "ok" })),
+    });
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: {} });
+    const options = { maxPaidAttempts: 3, backoff: { initialMs: 0 }, idempotencyKey: "job-7" };
+
+    await guard.fetchWithRetry("https://api.test/x", init, options);
+    expect(api.paidCount()).toBe(2);
+    await expect(guard.fetchWithRetry("https://api.test/x", init, options)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_DUPLICATE",
+    });
+  });
+
+  test("a retry whose first attempt failed before paying still claims the key", async () => {
+    let unpaid = 0;
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    // The first unpaid request of the retried call fails with a 503 before any 402.
+    const flaky = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const signed = new Headers(init?.headers).has("PAYMENT-SIGNATURE");
+      if (!signed && ++unpaid === 2) return new Response("", { status: 503 });
+      return api.fetch(input, init);
+    }) as typeof fetch;
+    const guard = new X402Guard(flaky, { client: fakeClient(), policy: {} });
+
+    await guard.fetch("https://api.test/x", init, { idempotencyKey: "k" });
+    await expect(
+      guard.fetchWithRetry("https://api.test/x", init, { maxPaidAttempts: 3, backoff: { initialMs: 0 }, idempotencyKey: "k" }),
+    ).rejects.toMatchObject({ code: "PAYMENT_BLOCKED_DUPLICATE", details: { state: "paid" } });
+    expect(api.paidCount()).toBe(1);
+  });
+});
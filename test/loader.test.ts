@@ -0,0 +1,168 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, test } from "vitest";
+
+import {
+  loadPolicyFile,
+  loadPolicyFromEnv,
+  parseDuration,
+  parsePolicy,
+  parseUsd,
+  watchPolicyFile,
+} from "../src/policy/loader.js";
+import type { GuardPolicy } from "../src/policy/policy.js";
+import { GuardError } from "../src/utils/errors.js";
+import { sleep } from "./helpers.js";
+
+function issuesOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(GuardError);
+    expect((e as GuardError).code).toBe("POLICY_INVALID");
+    return (e as GuardError).details?.errors;
+  }
+  throw new Error("expected POLICY_INVALID");
+}
+
+describe("duration and USD strings", () => {
+  test("parse durations", () => {
+    expect(parseDuration("250ms")).toBe(250);
+    expect(parseDuration("30s")).toBe(30_000);
+    expect(parseDuration("1h30m")).toBe(5_400_000);
+    expect(parseDuration("1.5d")).toBe(129_600_000);
+    expect(parseDuration(1_000)).toBe(1_000);
+    expect(parseDuration("1000")).toBeNull();
+    expect(parseDuration("1 hour")).toBeNull();
+    expect(parseDuration(-1)).toBeNull();
+  });
+
+  test("parse USD amounts", () => {
+    expect(parseUsd("$0.10")).toBe(0.1);
+    expect(parseUsd("5")).toBe(5);
+    expect(parseUsd(0.25)).toBe(0.25);
+    expect(parseUsd("-$1")).toBeNull();
+    expect(parseUsd("0.10 USD")).toBeNull();
+  });
+});
+
+describe("parsePolicy", () => {
+  test("normalizes durations and money strings", () => {
+    expect(
+      parsePolicy({
+        maxPerPaymentUsd: "$0.10",
+        budget: { limitUsd: "$5", windowMs: "1h" },
+        budgets: [{ scope: "origin", limitUsd: 1, windowMs: "1d" }],
+        rateLimits: [{ scope: "global", maxPayments: 100, windowMs: "1m" }],
+        conditions: { maxLatencyMs: "2s", predicates: [{ path: "$.score", op: ">=", value: 0.5 }] },
+        routes: [{ id: "search", match: { path: "/v1/*", method: ["GET"] }, policy: { maxPerPaymentUsd: "$0.01" } }],
+      }),
+    ).toEqual({
+      maxPerPaymentUsd: 0.1,
+      budget: { limitUsd: 5, windowMs: 3_600_000 },
+      budgets: [{ scope: "origin", limitUsd: 1, windowMs: 86_400_000 }],
+      rateLimits: [{ scope: "global", maxPayments: 100, windowMs: 60_000 }],
+      conditions: { maxLatencyMs: 2_000, predicates: [{ path: "$.score", op: ">=", value: 0.5 }] },
+      routes: [{ id: "search", match: { path: "/v1/*", method: ["GET"] }, policy: { maxPerPaymentUsd: 0.01 } }],
+    });
+  });
+
+  test("reports every unknown key, type error and missing field by path", () => {
+    expect(
+      issuesOf(() =>
+        parsePolicy({
+          maxPerPaymentUSD: 0.1,
+          budget: { limitUsd: "ten dollars" },
+          selectCheapest: "yes",
+          routes: [{ id: "r", match: {}, policy: { conditions: { maxLatencyMs: "soon" } } }],
+        }),
+      ),
+    ).toEqual([
+      { path: "maxPerPaymentUSD", message: "unknown key" },
+      { path: "budget.limitUsd", message: 'must be a USD amount (number or string like "$0.10")' },
+      { path: "budget.windowMs", message: "is required" },
+      { path: "selectCheapest", message: "must be a boolean" },
+      { path: "routes[0].policy.conditions.maxLatencyMs", message: 'must be a duration in ms or a string like "30s", "1h"' },
+    ]);
+  });
+
+  test("reports empty (null) values as type errors instead of dropping them", () => {
+    expect(
+      issuesOf(() => parsePolicy({ maxPerPaymentUsd: null, budget: { limitUsd: 1, windowMs: null }, wallets: null })),
+    ).toEqual([
+      { path: "maxPerPaymentUsd", message: 'must be a USD amount (number or string like "$0.10")' },
+      { path: "budget.windowMs", message: 'must be a duration in ms or a string like "30s", "1h"' },
+      { path: "wallets", message: "must be an array" },
+    ]);
+  });
+
+  test("reports range checks from validatePolicy under the same paths", () => {
+    expect(issuesOf(() => parsePolicy({ budget: { limitUsd: 0, windowMs: "1h" } }))).toEqual([
+      { path: "budget.limitUsd", message: "must be > 0" },
+    ]);
+    expect(issuesOf(() => parsePolicy({ conditions: { responseSchema: { type: "object", foo: 1 } } }))).toEqual([
+      { path: "conditions.responseSchema/foo", message: "unsupported keyword" },
+    ]);
+  });
+});
+
+describe("policy sources", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  test("loads YAML and JSON files", () => {
+    dir = mkdtempSync(join(tmpdir(), "x402-guard-policy-"));
+    const yaml = join(dir, "policy.yaml");
+    writeFileSync(yaml, 'maxPerPaymentUsd: "$0.10"\nbudget:\n  limitUsd: $5\n  windowMs: 1h\n');
+    const json = join(dir, "policy.json");
+    writeFileSync(json, JSON.stringify({ maxPerPaymentUsd: "$0.10", budget: { limitUsd: 5, windowMs: 3_600_000 } }));
+
+    expect(loadPolicyFile(yaml)).toEqual(loadPolicyFile(json));
+    expect(loadPolicyFile("demo/policy.yaml")).toMatchObject({ maxPerPaymentUsd: 0.0001, budget: { windowMs: 60_000 } });
+  });
+
+  test("names the file in parse errors", () => {
+    dir = mkdtempSync(join(tmpdir(), "x402-guard-policy-"));
+    const path = join(dir, "policy.json");
+    writeFileSync(path, "{ maxPerPaymentUsd: 1 }");
+    expect(() => loadPolicyFile(path)).toThrow(/Invalid policy \(.*policy\.json\): cannot parse JSON/);
+  });
+
+  test("reads inline policies or a file from the environment, and fails closed when unset", () => {
+    expect(loadPolicyFromEnv({ X402_GUARD_POLICY: '{"maxPerPaymentUsd": "$0.05"}' })).toEqual({ maxPerPaymentUsd: 0.05 });
+    expect(loadPolicyFromEnv({ X402_GUARD_POLICY_FILE: "demo/policy.yaml" })).toMatchObject({ selectCheapest: true });
+    expect(issuesOf(() => loadPolicyFromEnv({}))).toEqual([
+      { path: "", message: "neither X402_GUARD_POLICY nor X402_GUARD_POLICY_FILE is set" },
+    ]);
+  });
+
+  test("a watched file is reloaded on change; a broken edit is reported and skipped", async () => {
+    dir = mkdtempSync(join(tmpdir(), "x402-guard-policy-"));
+    const path = join(dir, "policy.yaml");
+    writeFileSync(path, "maxPerPaymentUsd: $0.10\n");
+    const loaded: GuardPolicy[] = [];
+    const errors: unknown[] = [];
+    const stop = watchPolicyFile(path, (p) => loaded.push(p), { intervalMs: 10, onError: (e) => errors.push(e) });
+    const until = async (done: () => boolean) => {
+      for (let i = 0; i < 200 && !done(); i += 1) await sleep(10);
+    };
+
+    try {
+      await sleep(30);
+      writeFileSync(path, "maxPerPaymentUsd: $0.25\n");
+      await until(() => loaded.length > 0);
+      writeFileSync(path, "maxPerPaymentUSD: $1\n");
+      await until(() => errors.length > 0);
+    } finally {
+      stop();
+    }
+
+    expect(loaded).toEqual([{ maxPerPaymentUsd: 0.25 }]);
+    expect(errors[0]).toMatchObject({ code: "POLICY_INVALID", details: { errors: [{ path: "maxPerPaymentUSD" }] } });
+  });
+});
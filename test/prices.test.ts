@@ -0,0 +1,109 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, test } from "vitest";
+
+import { X402Guard } from "../src/guard.js";
+import { priceReference } from "../src/policy/prices.js";
+import type { GuardDecision } from "../src/receipt.js";
+import { FilePriceHistoryStore, InMemoryPriceHistoryStore, type PriceHistory } from "../src/stores/prices.js";
+import { fakeClient, paidApi, req } from "./helpers.js";
+
+const init: RequestInit = { method: "POST" };
+
+function history(first: bigint, ...recent: bigint[]): PriceHistory {
+  return { first: { ts: 0, usdMicros: first }, recent: [first, ...recent].map((usdMicros, ts) => ({ ts, usdMicros })) };
+}
+
+describe("priceReference", () => {
+  test("limits prices to a multiple of the recent median once enough samples exist", () => {
+    expect(priceReference({ maxMultiple: 3 }, history(1_000n, 1_200n))).toBeUndefined();
+    expect(priceReference({ maxMultiple: 3 }, history(1_000n, 1_200n, 50_000n))).toEqual({
+      maxUsdMicros: 3_600n,
+      medianUsdMicros: 1_200n,
+      pinnedUsdMicros: undefined,
+    });
+    expect(priceReference({ maxMultiple: 1.5, minSamples: 2 }, history(1_000n, 2_000n))?.maxUsdMicros).toBe(2_250n);
+  });
+
+  test("a pinned first price is the limit from the first payment on, and the stricter limit wins", () => {
+    expect(priceReference({ pinFirstPrice: true }, history(1_000n))).toMatchObject({ maxUsdMicros: 1_000n });
+    expect(priceReference({ pinFirstPrice: true, maxMultiple: 10 }, history(5_000n, 100n, 100n))).toMatchObject({
+      maxUsdMicros: 1_000n,
+      pinnedUsdMicros: 5_000n,
+    });
+    expect(priceReference({ pinFirstPrice: true }, undefined)).toBeUndefined();
+  });
+});
+
+describe("price history stores", () => {
+  test("keep the first price and the last `keep` prices", () => {
+    const store = new InMemoryPriceHistoryStore();
+    for (const p of [1n, 2n, 3n, 4n]) store.record("e", { ts: Number(p), usdMicros: p }, 2);
+    expect(store.get("e")).toEqual({
+      first: { ts: 1, usdMicros: 1n },
+      recent: [
+        { ts: 3, usdMicros: 3n },
+        { ts: 4, usdMicros: 4n },
+      ],
+    });
+  });
+
+  test("a file store survives a restart", () => {
+    const dir = mkdtempSync(join(tmpdir(), "x402-guard-prices-"));
+    try {
+      const path = join(dir, "prices.json");
+      new FilePriceHistoryStore(path).record("https://a.test/x", { ts: 1, usdMicros: 1_000n }, 5);
+      new FilePriceHistoryStore(path).record("https://a.test/x", { ts: 2, usdMicros: 2_000n }, 5);
+      expect(new FilePriceHistoryStore(path).get("https://a.test/x")).toEqual({
+        first: { ts: 1, usdMicros: 1_000n },
+        recent: [
+          { ts: 1, usdMicros: 1_000n },
+          { ts: 2, usdMicros: 2_000n },
+        ],
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("X402Guard price anomalies", () => {
+  test("a price jump under the per-payment cap is rejected as PRICE_ANOMALY", async () => {
+    let price = 1_000n;
+    const api = paidApi({ accepts: () => [req(price)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: { maxPerPaymentUsd: 0.1, priceAnomaly: { maxMultiple: 5 } },
+      onDecision: (r) => records.push(r),
+    });
+
+    for (let i = 0; i < 3; i += 1) await guard.fetch(`https://a.test/v1/search?q=${i}`, init);
+    price = 90_000n;
+    await expect(guard.fetch("https://a.test/v1/search", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+      details: { rejected: [{ reason: "PRICE_ANOMALY" }] },
+    });
+    expect(records.at(-1)?.payment?.rejected?.[0]).toMatchObject({ reason: "PRICE_ANOMALY", requirement: { amount: "90000" } });
+
+    // Another endpoint has no history yet: only the cap applies.
+    await guard.fetch("https://a.test/v1/other", init);
+    expect(api.paidCount()).toBe(4);
+  });
+
+  test("a pinned first price blocks any increase", async () => {
+    let price = 1_000n;
+    const api = paidApi({ accepts: () => [req(price)] });
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: { priceAnomaly: { pinFirstPrice: true } } });
+
+    await guard.fetch("https://a.test/x", init);
+    price = 1_001n;
+    await expect(guard.fetch("https://a.test/x", init)).rejects.toMatchObject({
+      details: { rejected: [{ reason: "PRICE_ANOMALY" }] },
+    });
+    price = 900n;
+    await guard.fetch("https://a.test/x", init);
+    expect(api.paidCount()).toBe(2);
+  });
+});
@@ -0,0 +1,130 @@
+import type { AddressInfo } from "node:net";
+import { request, type OutgoingHttpHeaders, type Server } from "node:http";
+import { afterEach, describe, expect, test } from "vitest";
+
+import { X402Guard } from "../src/guard.js";
+import { createGuardProxy, isLoopbackHost, type GuardProxyOptions } from "../src/proxy.js";
+import { fakeClient, paidApi, req } from "./helpers.js";
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = undefined;
+});
+
+async function listen(guard: X402Guard, options?: GuardProxyOptions): Promise<string> {
+  server = createGuardProxy(guard, options).listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server!.once("listening", () => resolve()));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/** POST through `node:http`, which (unlike fetch) lets a test set `Host` like a rebound browser would. */
+function post(url: string, headers: OutgoingHttpHeaders, path?: string): Promise<{ status: number; code: unknown }> {
+  return new Promise((resolve, reject) => {
+    // `path` overrides the request target, e.g. an absolute-form `http://api.test/x` as HTTP_PROXY clients send.
+    request(url, { method: "POST", headers, ...(path ? { path } : {}) }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, code: JSON.parse(body).error?.code }));
+    })
+      .on("error", reject)
+      .end();
+  });
+}
+
+describe("createGuardProxy", () => {
+  test("forwards path-form targets through the guard and reports denials as JSON", async () => {
+    const api = paidApi({
+      accepts: (url) => [req(url.endsWith("/pricey") ? 500_000n : 1_000n)],
+      respond: () => Response.json({ result: "42" }, { headers: { "x-upstream": "yes" } }),
+    });
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: { maxPerPaymentUsd: 0.01 } });
+    const proxy = await listen(guard);
+
+    const ok = await fetch(`${proxy}/https://api.test/v1/search?q=x`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ q: "x" }),
+    });
+    expect(ok.status).toBe(200);
+    expect(ok.headers.get("x-upstream")).toBe("yes");
+    expect(await ok.json()).toEqual({ result: "42" });
+
+    const denied = await fetch(`${proxy}/https://api.test/pricey`, { method: "POST" });
+    expect(denied.status).toBe(403);
+    expect(denied.headers.get("x-guard-code")).toBe("PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS");
+    expect(await denied.json()).toMatchObject({
+      error: { code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS", explanation: expect.any(String) },
+    });
+    expect(api.paidCount()).toBe(1);
+
+    const bad = await fetch(`${proxy}/not-a-url`);
+    expect(bad.status).toBe(400);
+    expect(await bad.json()).toMatchObject({ error: { code: "PROXY_BAD_TARGET" } });
+  });
+
+  test("GET /guard/status shows budget usage and circuit states", async () => {
+    const api = paidApi({
+      accepts: () => [req(1_000n)],
+      respond: () => new Response("down", { status: 500 }),
+    });
+    const guard = new X402Guard(api.fetch, {
+      client: fakeClient(),
+      policy: {
+        budget: { limitUsd: 0.25, windowMs: 60_000 },
+        conditions: { requireHttp2xx: true },
+        circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000 },
+      },
+    });
+    const proxy = await listen(guard);
+
+    const failed = await fetch(`${proxy}/https://api.test/x`, { method: "POST" });
+    expect(failed.status).toBe(502);
+    expect(failed.headers.get("x-guard-code")).toBe("RESPONSE_CONDITION_FAILED");
+    const open = await fetch(`${proxy}/https://api.test/x`, { method: "POST" });
+    expect(open.status).toBe(503);
+
+    const status = await (await fetch(`${proxy}/guard/status`)).json();
+    expect(status).toMatchObject({
+      enforcement: "enforce",
+      budgets: [{ windowMs: 60_000, limitBaseUnits: "250000", committedBaseUnits: "1000", reservedBaseUnits: "0" }],
+      circuits: [{ key: expect.stringContaining("api.test/x"), state: "open", failures: 1 }],
+    });
+  });
+
+  test("refuses browser requests, rebound hosts and callers without the token", async () => {
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    const guard = new X402Guard(api.fetch, { client: fakeClient(), policy: {} });
+    const proxy = await listen(guard, { token: "s3cret" });
+    const target = `${proxy}/https://api.test/x`;
+
+    expect(await post(target, { origin: "https://evil.test", "x-guard-token": "s3cret" })).toEqual({
+      status: 403,
+      code: "PROXY_FORBIDDEN_ORIGIN",
+    });
+    expect(await post(target, { "sec-fetch-site": "cross-site", "x-guard-token": "s3cret" })).toMatchObject({ status: 403 });
+    expect(await post(target, { host: "evil.test:8402", "x-guard-token": "s3cret" })).toEqual({
+      status: 403,
+      code: "PROXY_FORBIDDEN_HOST",
+    });
+    expect(await post(target, { "x-guard-token": "wrong" })).toEqual({ status: 403, code: "PROXY_UNAUTHORIZED" });
+    expect(api.paidCount()).toBe(0);
+
+    // Absolute form is checked too: its Host must be the target's.
+    expect(await post(proxy, { host: "evil.test", "x-guard-token": "s3cret" }, "http://api.test/x")).toEqual({
+      status: 403,
+      code: "PROXY_FORBIDDEN_HOST",
+    });
+    expect(api.paidCount()).toBe(0);
+
+    expect(await post(target, { host: "localhost", "x-guard-token": "s3cret" })).toMatchObject({ status: 200 });
+    expect(await post(proxy, { host: "api.test", "x-guard-token": "s3cret" }, "http://api.test/x")).toMatchObject({ status: 200 });
+    expect(api.paidCount()).toBe(2);
+  });
+
+  test("isLoopbackHost accepts only loopback names and addresses", () => {
+    for (const host of ["localhost", "127.0.0.1", "127.0.0.1:8402", "[::1]:8402", "::1"]) expect(isLoopbackHost(host)).toBe(true);
+    for (const host of ["0.0.0.0", "192.168.1.5", "evil.test", "localhost.evil.test", undefined]) expect(isLoopbackHost(host)).toBe(false);
+  });
+});
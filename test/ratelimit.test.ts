@@ -0,0 +1,47 @@
+import { describe, expect, test } from "vitest";
+
+import { applicableRateLimits, rateLimitError, RateLimiter } from "../src/policy/ratelimit.js";
+
+const perOrigin = applicableRateLimits([{ scope: "origin", maxPayments: 2, windowMs: 1_000 }], "https://a.test/x");
+
+describe("RateLimiter", () => {
+  test("allows maxPayments per sliding window and says when the next one fits", () => {
+    const limiter = new RateLimiter();
+    for (const at of [0, 400]) {
+      const taken = limiter.take(perOrigin, at);
+      if (!taken.ok) throw new Error("expected a slot");
+      for (const slot of taken.slots) limiter.commit(slot, at);
+    }
+
+    const blocked = limiter.take(perOrigin, 900);
+    expect(blocked).toMatchObject({ ok: false, count: 2, nextAllowedAt: 1_000 });
+    if (blocked.ok) return;
+    expect(rateLimitError(blocked, 900)).toMatchObject({
+      code: "PAYMENT_BLOCKED_RATE_LIMIT",
+      details: { rateLimit: "origin", rateLimitKey: "origin:origin:https://a.test", retryAfterMs: 100, nextAllowedAt: "1970-01-01T00:00:01.000Z" },
+    });
+
+    expect(limiter.take(perOrigin, 1_000).ok).toBe(true);
+    // Other origins have their own window.
+    expect(limiter.take(applicableRateLimits([{ scope: "origin", maxPayments: 2, windowMs: 1_000 }], "https://b.test"), 1_000).ok).toBe(true);
+  });
+
+  test("in-flight slots count until released; a blocked take holds nothing", () => {
+    const limiter = new RateLimiter();
+    const policies = [
+      { scope: "global", maxPayments: 3, windowMs: 1_000 },
+      { scope: "origin", maxPayments: 2, windowMs: 1_000 },
+    ] as const;
+    const limits = (url: string) => applicableRateLimits([...policies], url);
+    const first = limiter.take(limits("https://a.test/x"), 0);
+    expect(limiter.take(limits("https://a.test/x"), 0).ok).toBe(true);
+    expect(limiter.take(limits("https://a.test/x"), 0)).toMatchObject({ ok: false, blockedBy: { id: "origin" } });
+    // The blocked take gave its global slot back: 2 of 3 are in use.
+    expect(limiter.take(limits("https://b.test/x"), 0).ok).toBe(true);
+    expect(limiter.take(limits("https://b.test/x"), 0)).toMatchObject({ ok: false, blockedBy: { id: "global" }, count: 3 });
+
+    if (!first.ok) throw new Error("expected slots");
+    for (const slot of first.slots) limiter.release(slot);
+    expect(limiter.take(limits("https://b.test/x"), 0).ok).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, test } from "vitest";
+
+import { X402Guard } from "../src/guard.js";
+import type { GuardDecision } from "../src/receipt.js";
+import { SpendReport, buildSpendReport, formatSpendReport, readDecisionLog } from "../src/report.js";
+import { FileAuditLog } from "../src/stores/audit.js";
+import { fakeClient, paidApi, req } from "./helpers.js";
+
+const init: RequestInit = { method: "POST" };
+
+async function decisions(): Promise<GuardDecision[]> {
+  const api = paidApi({
+    accepts: () => [req(1_000n)],
+    respond: (url) => Response.json(new URL(url).pathname === "/bad" ? {} : { result: "ok" }),
+  });
+  const records: GuardDecision[] = [];
+  const guard = new X402Guard(api.fetch, {
+    client: fakeClient(),
+    policy: { conditions: { requiredJsonFields: ["result"] } },
+    onDecision: (r) => records.push(r),
+  });
+
+  await guard.fetch("https://a.test/good", init);
+  await guard.fetch("https://a.test/good?page=2", init);
+  await expect(
+    guard.fetchWithRetry("https://a.test/bad", init, { maxPaidAttempts: 2, backoff: { initialMs: 0 } }),
+  ).rejects.toMatchObject({ code: "RESPONSE_CONDITION_FAILED" });
+  await guard.fetch("https://b.test/good", init);
+  return records;
+}
+
+describe("SpendReport", () => {
+  test("groups spend by endpoint and counts paid-then-rejected responses once", async () => {
+    const report = await buildSpendReport(await decisions(), { groupBy: ["endpoint"] });
+
+    expect(report.totals).toMatchObject({
+      requests: 5,
+      allowed: 3,
+      denied: 2,
+      paidCount: 5,
+      spentUsdMicros: "5000",
+      rejectedAfterPaymentCount: 2,
+      rejectedAfterPaymentUsdMicros: "2000",
+      conditionFailures: 2,
+      denialsByCode: { RESPONSE_CONDITION_FAILED: 2 },
+    });
+    expect(report.rows.map((r) => [r.key.endpoint, r.spentUsdMicros, r.conditionFailures])).toEqual([
+      ["https://a.test/bad", "2000", 2],
+      ["https://a.test/good", "2000", 0],
+      ["https://b.test/good", "1000", 0],
+    ]);
+    expect(report.reconciliation).toEqual({ retryCalls: 1, mismatched: [] });
+  });
+
+  test("buckets by time and filters by range", () => {
+    const at = (iso: string): GuardDecision => ({
+      decision: "allow",
+      at: iso,
+      request: { url: "https://a.test/x" },
+      payment: { paidUsdMicros: "10" },
+    });
+    const report = new SpendReport({
+      groupBy: ["origin", "time"],
+      bucketMs: 60 * 60 * 1000,
+      since: new Date("2026-01-01T00:00:00Z"),
+    });
+    for (const iso of ["2025-12-31T23:59:00Z", "2026-01-01T00:10:00Z", "2026-01-01T00:50:00Z", "2026-01-01T01:05:00Z"]) {
+      report.add(at(iso));
+    }
+
+    expect(report.toJSON().rows.map((r) => [r.key.time, r.requests])).toEqual([
+      ["2026-01-01T00:00:00.000Z", 2],
+      ["2026-01-01T01:00:00.000Z", 1],
+    ]);
+  });
+
+  test("does not count payments the server refused as spend", () => {
+    const report = new SpendReport({ groupBy: ["origin"] });
+    report.add({
+      decision: "deny",
+      at: "2026-01-01T00:00:00Z",
+      request: { url: "https://a.test/x" },
+      code: "RESPONSE_CONDITION_FAILED",
+      explanation: "status 402",
+      payment: { paidUsdMicros: "1000", spent: false },
+    });
+
+    expect(report.toJSON().totals).toMatchObject({
+      denied: 1,
+      paidCount: 0,
+      spentUsdMicros: "0",
+      rejectedAfterPaymentCount: 0,
+      conditionFailures: 1,
+    });
+  });
+
+  test("flags retry aggregates whose attempts are missing from the log", () => {
+    const report = new SpendReport({ groupBy: ["origin"] });
+    report.add({
+      decision: "allow",
+      at: "2026-01-01T00:00:00Z",
+      request: { url: "https://a.test/x" },
+      retry: { id: "r1", attempts: [], paidAttempts: 2, totalPaidUsdMicros: "2000" },
+    });
+
+    expect(report.toJSON()).toMatchObject({
+      totals: { requests: 0 },
+      reconciliation: { retryCalls: 1, mismatched: [{ id: "r1", aggregateUsdMicros: "2000", attemptsUsdMicros: "0" }] },
+    });
+  });
+
+  test("keeps or drops a retried call as a whole when a time boundary falls inside it", () => {
+    const attempt = (id: string, index: number, iso: string): GuardDecision => ({
+      decision: "allow",
+      at: iso,
+      request: { url: "https://a.test/x" },
+      payment: { paidUsdMicros: "1000" },
+      attempt: { id, index },
+    });
+    const aggregate = (id: string, iso: string): GuardDecision => ({
+      decision: "allow",
+      at: iso,
+      request: { url: "https://a.test/x" },
+      retry: { id, attempts: [], paidAttempts: 2, totalPaidUsdMicros: "2000" },
+    });
+    const report = new SpendReport({ groupBy: ["origin"], since: new Date("2026-01-01T00:00:00Z") });
+    // r1 ends after the boundary: both attempts count. r2 ends before it: neither does.
+    report.add(attempt("r1", 0, "2025-12-31T23:59:59Z"));
+    report.add(attempt("r2", 0, "2025-12-31T23:59:50Z"));
+    report.add(attempt("r2", 1, "2025-12-31T23:59:55Z"));
+    report.add(aggregate("r2", "2025-12-31T23:59:56Z"));
+    report.add(attempt("r1", 1, "2026-01-01T00:00:01Z"));
+    report.add(aggregate("r1", "2026-01-01T00:00:02Z"));
+
+    expect(report.toJSON()).toMatchObject({
+      totals: { requests: 2, spentUsdMicros: "2000" },
+      reconciliation: { retryCalls: 1, mismatched: [] },
+    });
+  });
+
+  test("reads audit logs and bare JSONL, and renders a table", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "x402-guard-report-"));
+    try {
+      const records = await decisions();
+      const auditPath = join(dir, "audit.jsonl");
+      const log = new FileAuditLog(auditPath);
+      for (const r of records) log.write(r);
+      const barePath = join(dir, "decisions.jsonl");
+      writeFileSync(barePath, `${records.map((r) => JSON.stringify(r)).join("\n")}\nnot json\n`);
+
+      const fromAudit = await buildSpendReport(readDecisionLog(auditPath), { groupBy: ["origin"] });
+      const fromBare = await buildSpendReport(readDecisionLog(barePath), { groupBy: ["origin"] });
+      expect(fromBare).toEqual(fromAudit);
+
+      const table = formatSpendReport(fromAudit).split("\n");
+      expect(table[0]).toMatch(/^origin\s+requests\s+allowed\s+denied\s+paid\s+spent_usd/);
+      expect(table[2]).toMatch(/^https:\/\/a\.test\s+4\s+2\s+2\s+4\s+0\.004000\s+2\s+0\.002000\s+2$/);
+      expect(table.at(-1)).toMatch(/^TOTAL\s+5\s+3\s+2\s+5\s+0\.005000/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -4,11 +4,15 @@ import type { PaymentRequirements } from "@x402/core/types";
 import { usdToUsdcBaseUnits } from "../src/policy/policy.js";
 import { evaluatePaymentRequirements } from "../src/policy/requirements.js";
 
+// Registered in the built-in asset registry (6 decimals, $1).
+const BASE_SEPOLIA_USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const WETH = "0x4200000000000000000000000000000000000006";
+
 function req(amountBaseUnits: bigint): PaymentRequirements {
   return {
     scheme: "exact",
     network: "eip155:84532",
-    asset: "USDC",
+    asset: BASE_SEPOLIA_USDC,
     amount: amountBaseUnits.toString(),
     payTo: "0xdeadbeef",
     maxTimeoutSeconds: 60,
@@ -43,4 +47,124 @@ describe("policy behavior (sanity)", () => {
   });
 });
 
+describe("asset-aware valuation", () => {
+  const weth = (amount: bigint): PaymentRequirements => ({ ...req(amount), asset: WETH });
+  const wethAsset = { network: "eip155:84532" as const, asset: WETH, decimals: 18, usdPrice: 2_000 };
+
+  test("unknown assets are rejected by default", () => {
+    const { acceptable, rejected } = evaluatePaymentRequirements({}, [weth(1n), req(10n)]);
+    expect(acceptable.map((r) => r.asset)).toEqual([BASE_SEPOLIA_USDC]);
+    expect(rejected.map((r) => r.reason)).toEqual(["UNKNOWN_ASSET"]);
+  });
+
+  test("per-payment cap compares USD value, not raw base units", () => {
+    // 0.0001 WETH @ $2000 = $0.20 — tiny in USDC base-unit terms would be 1e14.
+    const { acceptable, rejected } = evaluatePaymentRequirements(
+      { maxPerPaymentUsd: 0.1, assets: [wethAsset] },
+      [weth(100_000_000_000_000n), weth(10_000_000_000_000n)],
+    );
+    expect(acceptable.map((r) => r.amount)).toEqual(["10000000000000"]);
+    expect(rejected.map((r) => r.reason)).toEqual(["ABOVE_PER_PAYMENT_CAP"]);
+  });
+
+  test("a price below the fixed-point precision is rounded up, not valued at $0", () => {
+    const dust = { network: "eip155:84532" as const, asset: WETH, decimals: 0, usdPrice: 1e-13 };
+    // 1e20 tokens @ $1e-13 = $10M.
+    const { acceptable, rejected } = evaluatePaymentRequirements({ maxPerPaymentUsd: 1, assets: [dust] }, [
+      weth(10n ** 20n),
+    ]);
+    expect(acceptable).toEqual([]);
+    expect(rejected.map((r) => r.reason)).toEqual(["ABOVE_PER_PAYMENT_CAP"]);
+  });
+
+  test("selectCheapest orders mixed assets by USD value", () => {
+    const { acceptable } = evaluatePaymentRequirements(
+      { selectCheapest: true, assets: [wethAsset] },
+      // $0.05 USDC vs $0.02 WETH
+      [req(50_000n), weth(10_000_000_000_000n)],
+    );
+    expect(acceptable.map((r) => r.asset)).toEqual([WETH, BASE_SEPOLIA_USDC]);
+  });
+
+  test("oracle prices are used, and a missing price fails closed", () => {
+    let price: number | undefined = 1_000;
+    const policy = { maxPerPaymentUsd: 0.015, assets: [{ ...wethAsset, usdPrice: () => price }] };
+
+    // 0.00001 WETH: $0.01 at $1000, $0.02 at $2000.
+    expect(evaluatePaymentRequirements(policy, [weth(10_000_000_000_000n)]).acceptable).toHaveLength(1);
+    price = 2_000;
+    expect(evaluatePaymentRequirements(policy, [weth(10_000_000_000_000n)]).rejected[0]?.reason).toBe(
+      "ABOVE_PER_PAYMENT_CAP",
+    );
+    price = undefined;
+    expect(evaluatePaymentRequirements(policy, [weth(10_000_000_000_000n)]).rejected[0]?.reason).toBe(
+      "ASSET_PRICE_UNAVAILABLE",
+    );
+  });
 
+  test("rejectUnknownAssets: false falls back to USDC semantics", () => {
+    const { acceptable } = evaluatePaymentRequirements(
+      { rejectUnknownAssets: false, maxPerPaymentUsd: 0.1 },
+      [{ ...req(50_000n), asset: "0xunknown" }],
+    );
+    expect(acceptable).toHaveLength(1);
+  });
+});
+
+describe("merchant policy", () => {
+  const PAYEE = "0x1111111111111111111111111111111111111111";
+  const OTHER = "0x2222222222222222222222222222222222222222";
+  const to = (payTo: string, overrides: Partial<PaymentRequirements> = {}) => ({ ...req(10n), payTo, ...overrides });
+
+  test("allowedPayTo matches addresses regardless of checksum casing", () => {
+    const { acceptable, rejected } = evaluatePaymentRequirements(
+      { merchants: { allowedPayTo: [PAYEE.toUpperCase().replace("0X", "0x")] } },
+      [to(OTHER), to(PAYEE)],
+    );
+    expect(acceptable.map((r) => r.payTo)).toEqual([PAYEE]);
+    expect(rejected.map((r) => r.reason)).toEqual(["PAYTO_NOT_ALLOWED"]);
+  });
+
+  test("each filter reports its own reason code", () => {
+    const { rejected } = evaluatePaymentRequirements(
+      {
+        merchants: {
+          deniedPayTo: [OTHER],
+          allowedNetworks: ["eip155:84532"],
+          allowedSchemes: ["exact"],
+          allowedAssets: [BASE_SEPOLIA_USDC],
+        },
+      },
+      [
+        to(OTHER),
+        to(PAYEE, { network: "eip155:1" }),
+        to(PAYEE, { scheme: "upto" }),
+        to(PAYEE, { asset: WETH }),
+      ],
+    );
+    expect(rejected.map((r) => r.reason)).toEqual([
+      "PAYTO_DENIED",
+      "NETWORK_NOT_ALLOWED",
+      "SCHEME_NOT_ALLOWED",
+      "ASSET_NOT_ALLOWED",
+    ]);
+  });
+
+  test("origin-scoped rules replace global allowlists and extend the denylist", () => {
+    const policy = {
+      merchants: {
+        allowedPayTo: [PAYEE],
+        byOrigin: { "https://search.example": { allowedPayTo: [OTHER], deniedPayTo: [PAYEE] } },
+      },
+    };
+
+    const scoped = evaluatePaymentRequirements(policy, [to(PAYEE), to(OTHER)], {
+      url: "https://search.example/v1/q?x=1",
+    });
+    expect(scoped.acceptable.map((r) => r.payTo)).toEqual([OTHER]);
+    expect(scoped.rejected.map((r) => r.reason)).toEqual(["PAYTO_DENIED"]);
+
+    const global = evaluatePaymentRequirements(policy, [to(PAYEE), to(OTHER)], { url: "https://other.example/" });
+    expect(global.acceptable.map((r) => r.payTo)).toEqual([PAYEE]);
+  });
+});
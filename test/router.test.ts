@@ -0,0 +1,57 @@
+import { describe, expect, test } from "vitest";
+
+import { validatePolicy, type GuardPolicy } from "../src/policy/policy.js";
+import { globToRegExp, resolveRoute } from "../src/policy/router.js";
+
+const policy: GuardPolicy = {
+  maxPerPaymentUsd: 0.01,
+  conditions: { requireHttp2xx: true },
+  routes: [
+    {
+      id: "inference",
+      match: { origin: "https://llm.example", path: "/v1/**", method: "POST" },
+      policy: { maxPerPaymentUsd: 1, budget: { limitUsd: 5, windowMs: 60_000 } },
+    },
+    { id: "search", match: { origin: "https://search.example", path: "/q/*" }, policy: { maxPerPaymentUsd: 0.001 } },
+  ],
+};
+
+describe("resolveRoute", () => {
+  test("first matching route wins and overrides default fields", () => {
+    const r = resolveRoute(policy, { url: "https://llm.example/v1/chat/completions", method: "post" });
+    expect(r?.routeId).toBe("inference");
+    expect(r?.policy.maxPerPaymentUsd).toBe(1);
+    // Inherited from the default policy.
+    expect(r?.policy.conditions).toEqual({ requireHttp2xx: true });
+  });
+
+  test("method, origin and path all have to match", () => {
+    expect(resolveRoute(policy, { url: "https://llm.example/v1/chat", method: "GET" })?.routeId).toBe("default");
+    expect(resolveRoute(policy, { url: "https://search.example/q/a/b" })?.routeId).toBe("default");
+    expect(resolveRoute(policy, { url: "https://search.example/q/cats" })?.routeId).toBe("search");
+  });
+
+  test("unmatched requests fall back to the default policy unless routing is strict", () => {
+    const fallback = resolveRoute(policy, { url: "https://other.example/" });
+    expect(fallback).toMatchObject({ routeId: "default", policy: { maxPerPaymentUsd: 0.01 } });
+    expect(fallback?.policy).not.toHaveProperty("routes");
+
+    expect(resolveRoute({ ...policy, strictRouting: true }, { url: "https://other.example/" })).toBeNull();
+  });
+});
+
+test("globToRegExp distinguishes * and **", () => {
+  expect(globToRegExp("/v1/*").test("/v1/a")).toBe(true);
+  expect(globToRegExp("/v1/*").test("/v1/a/b")).toBe(false);
+  expect(globToRegExp("/v1/**").test("/v1/a/b")).toBe(true);
+  expect(globToRegExp("/v1.0/x").test("/v1a0/x")).toBe(false);
+});
+
+test("validatePolicy checks route ids and route policies", () => {
+  const route = { id: "a", match: {}, policy: {} };
+  expect(() => validatePolicy({ routes: [route, route] })).toThrow(/not unique/);
+  expect(() => validatePolicy({ routes: [{ ...route, id: "default" }] })).toThrow(/reserved/);
+  expect(() => validatePolicy({ routes: [{ ...route, policy: { maxPerPaymentUsd: -1 } }] })).toThrow(
+    "policy.routes[0].policy.maxPerPaymentUsd must be > 0",
+  );
+});
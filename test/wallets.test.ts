@@ -0,0 +1,100 @@
+import { x402Client } from "@x402/fetch";
+import type { PaymentRequirements } from "@x402/core/types";
+import { describe, expect, test } from "vitest";
+
+import { X402Guard } from "../src/guard.js";
+import { routeWallet } from "../src/policy/wallets.js";
+import type { GuardDecision } from "../src/receipt.js";
+import type { GuardWallet } from "../src/wallets.js";
+import { fakeClient, paidApi, req } from "./helpers.js";
+
+const init: RequestInit = { method: "POST" };
+
+/** A wallet whose client notes every payload it signs as `<id>:<amount>`. */
+function wallet(id: string, signed: string[], overrides: Partial<GuardWallet> = {}): GuardWallet {
+  const client = new x402Client().register("eip155:*", {
+    scheme: "exact",
+    async createPaymentPayload(x402Version: number, requirements: PaymentRequirements) {
+      signed.push(`${id}:${requirements.amount}`);
+      return { x402Version, payload: { signature: `${id}:${requirements.amount}` } };
+    },
+  });
+  return { id, client, address: `0x${id}`, networks: ["eip155:*"], ...overrides };
+}
+
+describe("routeWallet", () => {
+  const wallets = [
+    { id: "hot", networks: ["eip155:*" as const], schemes: ["exact"] },
+    { id: "cold", networks: ["eip155:8453" as const], schemes: ["exact"] },
+  ];
+
+  test("picks the first wallet that can sign and whose rule allows the payment", () => {
+    const base = { scheme: "exact", network: "eip155:8453" as const };
+    expect(routeWallet(wallets, undefined, base, 1_000n)).toBe("hot");
+    expect(routeWallet(wallets, [{ id: "hot", maxPerPaymentUsd: 0.01 }, { id: "cold" }], base, 50_000n)).toBe("cold");
+    expect(routeWallet(wallets, [{ id: "hot", maxPerPaymentUsd: 0.01 }, { id: "cold" }], { ...base, network: "eip155:1" }, 50_000n)).toBeUndefined();
+    expect(routeWallet(wallets, [{ id: "cold" }], { ...base, scheme: "upto" }, 1n)).toBeUndefined();
+  });
+});
+
+describe("X402Guard wallets", () => {
+  test("routes payments by rule, records the payer and enforces each wallet's own budget", async () => {
+    const signed: string[] = [];
+    const api = paidApi({ accepts: (url) => [req(url.endsWith("/big") ? 50_000n : 1_000n)] });
+    const records: GuardDecision[] = [];
+    const guard = new X402Guard(api.fetch, {
+      wallets: [wallet("hot", signed), wallet("cold", signed)],
+      policy: {
+        wallets: [
+          { id: "hot", maxPerPaymentUsd: 0.01, budget: { limitUsd: 0.002, windowMs: 60_000 } },
+          { id: "cold", networks: ["eip155:84532"] },
+        ],
+      },
+      onDecision: (r) => records.push(r),
+    });
+
+    await guard.fetch("https://a.test/small", init);
+    await guard.fetch("https://a.test/big", init);
+    await guard.fetch("https://a.test/small", init);
+    expect(signed).toEqual(["hot:1000", "cold:50000", "hot:1000"]);
+    expect(records[1]?.payment?.wallet).toEqual({ id: "cold", address: "0xcold" });
+
+    // The hot wallet's budget is spent; the payment does not spill over to the cold wallet.
+    await expect(guard.fetch("https://a.test/small", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_BUDGET_WINDOW",
+      details: { budget: "wallet:hot" },
+    });
+    expect(records.at(-1)?.payment?.wallet).toEqual({ id: "hot", address: "0xhot" });
+    expect(api.paidCount()).toBe(3);
+    expect(guard.status().budgets.map((b) => b.key)).toEqual(["wallet:hot"]);
+  });
+
+  test("fails closed when no wallet may pay a requirement", async () => {
+    const signed: string[] = [];
+    const api = paidApi({ accepts: () => [req(50_000n)] });
+    const guard = new X402Guard(api.fetch, {
+      wallets: [wallet("hot", signed), wallet("base", signed, { networks: ["eip155:8453"] })],
+      policy: { wallets: [{ id: "hot", maxPerPaymentUsd: 0.01 }, { id: "base" }] },
+    });
+
+    await expect(guard.fetch("https://a.test/x", init)).rejects.toMatchObject({
+      code: "PAYMENT_BLOCKED_NO_ACCEPTABLE_REQUIREMENTS",
+      details: { rejected: [{ reason: "NO_WALLET" }] },
+    });
+    expect(signed).toEqual([]);
+    expect(await guard.quote("https://a.test/x", init)).toMatchObject({ payable: false, rejected: [{ reason: "NO_WALLET" }] });
+  });
+
+  test("rejects configs and policies that name wallets inconsistently", () => {
+    const signed: string[] = [];
+    const api = paidApi({ accepts: () => [req(1_000n)] });
+    expect(() => new X402Guard(api.fetch, { client: fakeClient(), wallets: [wallet("hot", signed)], policy: {} })).toThrow(
+      expect.objectContaining({ code: "POLICY_INVALID" }),
+    );
+    expect(() => new X402Guard(api.fetch, { client: fakeClient(), policy: { wallets: [{ id: "hot" }] } })).toThrow(
+      expect.objectContaining({ code: "POLICY_INVALID" }),
+    );
+    const guard = new X402Guard(api.fetch, { wallets: [wallet("hot", signed)], policy: {} });
+    expect(() => guard.updatePolicy({ wallets: [{ id: "warm" }] })).toThrow(expect.objectContaining({ code: "POLICY_INVALID" }));
+  });
+});